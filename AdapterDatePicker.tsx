@@ -0,0 +1,121 @@
+import React, { useMemo } from 'react';
+
+import { formatADDate, parseADDate } from './dateUtils';
+import { DEFAULT_VIEWS, getGranularity, getValueFormat } from './pickerUtils';
+import { DateAdapter } from './dateAdapters';
+import ThaiDatePicker, { SingleDatePickerProps, MultipleDatePickerProps, ThaiDatePickerHandle } from './index';
+
+// Props that take the adapter's date type instead of AD strings; partial dates and ISO strings have no adapter form
+type AdaptedProps =
+  | 'value'
+  | 'onChange'
+  | 'onAccept'
+  | 'minDate'
+  | 'maxDate'
+  | 'shouldDisableDate'
+  | 'valueFormat'
+  | 'allowPartial';
+
+interface AdapterConstraintProps<TDate> {
+  minDate?: TDate;
+  maxDate?: TDate;
+  shouldDisableDate?: (date: TDate) => boolean;
+}
+
+export type AdapterDatePickerProps<TDate> =
+  | (Omit<SingleDatePickerProps, AdaptedProps> &
+      AdapterConstraintProps<TDate> & {
+        value: TDate | null; // null = empty
+        onChange: (value: TDate | null) => void;
+        onAccept?: (value: TDate | null) => void;
+      })
+  | (Omit<MultipleDatePickerProps, AdaptedProps> &
+      AdapterConstraintProps<TDate> & {
+        value: TDate[];
+        onChange: (value: TDate[]) => void;
+        onAccept?: (value: TDate[]) => void;
+      });
+
+/**
+ * ThaiDatePicker typed for an adapter's dates (Date, dayjs, Luxon, ...). Create it once at module level:
+ * const LuxonDatePicker = createAdapterDatePicker(createLuxonAdapter(DateTime))
+ */
+export const createAdapterDatePicker = <TDate,>(adapter: DateAdapter<TDate>) => {
+  // Day of a constraint as an AD string
+  const toADDay = (value: TDate | undefined): string | undefined => {
+    const date = value === undefined ? null : adapter.toDate(value);
+    return date ? formatADDate(date) : undefined;
+  };
+  const fromADDays = (values: string[]): TDate[] =>
+    values
+      .map(parseADDate)
+      .filter((d): d is Date => d !== null)
+      .map(adapter.fromDate);
+
+  const AdapterDatePickerRender: React.ForwardRefRenderFunction<ThaiDatePickerHandle, AdapterDatePickerProps<TDate>> = (
+    props,
+    ref
+  ) => {
+    const { shouldDisableDate } = props;
+    // Stable across renders so the picker keeps its resolved constraints
+    const shouldDisableADDate = useMemo(
+      () =>
+        shouldDisableDate &&
+        ((value: string) => {
+          const date = parseADDate(value);
+          return date !== null && shouldDisableDate(adapter.fromDate(date));
+        }),
+      [shouldDisableDate]
+    );
+
+    if (props.multiple) {
+      // shouldDisableDate is replaced by shouldDisableADDate
+      const { value, onChange, onAccept, minDate, maxDate, shouldDisableDate: _shouldDisableDate, ...pickerProps } = props;
+      return (
+        <ThaiDatePicker
+          {...pickerProps}
+          multiple
+          ref={ref}
+          value={value.map(toADDay).filter((v): v is string => v !== undefined)}
+          onChange={(values: string[]) => onChange(fromADDays(values))}
+          onAccept={onAccept && ((values: string[]) => onAccept(fromADDays(values)))}
+          minDate={toADDay(minDate)}
+          maxDate={toADDay(maxDate)}
+          shouldDisableDate={shouldDisableADDate}
+        />
+      );
+    }
+
+    // shouldDisableDate is replaced by shouldDisableADDate
+    const { value, onChange, onAccept, minDate, maxDate, shouldDisableDate: _shouldDisableDate, ...pickerProps } = props;
+    // The picker's own AD string for the granularity (date, month, year, with or without time)
+    const granularity = getGranularity(pickerProps.views ?? DEFAULT_VIEWS);
+    const { formatAD, parseAD } = getValueFormat(granularity, {
+      withTime: !!pickerProps.withTime && granularity === 'day',
+      withSeconds: pickerProps.withSeconds,
+    });
+    const toAD = (v: TDate | null): string => {
+      const date = v === null ? null : adapter.toDate(v);
+      return date ? formatAD(date) : '';
+    };
+    const fromAD = (v: string): TDate | null => {
+      const date = parseAD(v);
+      return date ? adapter.fromDate(date) : null;
+    };
+
+    return (
+      <ThaiDatePicker
+        {...pickerProps}
+        ref={ref}
+        value={toAD(value)}
+        onChange={(v) => onChange(fromAD(v))}
+        onAccept={onAccept && ((v) => onAccept(fromAD(v)))}
+        minDate={toADDay(minDate)}
+        maxDate={toADDay(maxDate)}
+        shouldDisableDate={shouldDisableADDate}
+      />
+    );
+  };
+
+  return React.forwardRef(AdapterDatePickerRender);
+};
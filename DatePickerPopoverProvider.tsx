@@ -0,0 +1,152 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Popover, PopoverProps, Box, PaperProps } from '@mui/material';
+
+// One calendar popover for many fields (editable tables): the field that opens it renders its calendar
+// into the shared popover through a portal, so closed fields keep no Popover and no calendar state
+export interface SharedDatePickerPopover {
+  // Element the calendar is portalled into; null during server rendering
+  container: HTMLElement | null;
+  // Opens at anchorEl for owner; the previous owner gets its onClose called first
+  open: (owner: object, anchorEl: HTMLElement, onClose: () => void, width?: number) => void;
+  close: (owner: object) => void;
+}
+
+const SharedDatePickerPopoverContext = createContext<SharedDatePickerPopover | null>(null);
+
+/**
+ * Shared popover of the nearest DatePickerPopoverProvider, or null (each picker then uses its own Popover)
+ */
+export const useSharedDatePickerPopover = (): SharedDatePickerPopover | null => useContext(SharedDatePickerPopoverContext);
+
+// Placement and focus shared by the per-field popover and the provider's popover
+const popoverProps: Partial<PopoverProps> = {
+  anchorOrigin: {
+    vertical: 'bottom',
+    horizontal: 'left',
+  },
+  transformOrigin: {
+    vertical: 'top',
+    horizontal: 'left',
+  },
+};
+
+const DEFAULT_WIDTH = 320;
+
+const getPaperSx = (width: number) => ({
+  mt: 1,
+  p: 2,
+  width,
+  borderRadius: 2,
+});
+
+// Focus the active cell once the popover has finished growing into place
+const focusActiveCell = (node: HTMLElement) => node.querySelector<HTMLElement>('[role="grid"] [tabindex="0"]')?.focus();
+
+interface DatePickerPopoverProviderProps {
+  children?: React.ReactNode;
+  PaperProps?: Partial<PaperProps>;
+}
+
+export const DatePickerPopoverProvider: React.FC<DatePickerPopoverProviderProps> = ({ children, PaperProps }) => {
+  const [container] = useState(() => (typeof document !== 'undefined' ? document.createElement('div') : null));
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  const [width, setWidth] = useState(DEFAULT_WIDTH);
+  const ownerRef = useRef<{ owner: object; onClose: () => void } | null>(null);
+
+  const open = useCallback((owner: object, nextAnchorEl: HTMLElement, onClose: () => void, nextWidth = DEFAULT_WIDTH) => {
+    const previous = ownerRef.current;
+    ownerRef.current = { owner, onClose };
+    if (previous && previous.owner !== owner) previous.onClose();
+    setAnchorEl(nextAnchorEl);
+    setWidth(nextWidth);
+  }, []);
+
+  const close = useCallback((owner: object) => {
+    if (ownerRef.current?.owner !== owner) return;
+    ownerRef.current = null;
+    setAnchorEl(null);
+  }, []);
+
+  // Stable value: opening the popover never re-renders the fields that are not involved
+  const value = useMemo(() => ({ container, open, close }), [container, open, close]);
+
+  return (
+    <SharedDatePickerPopoverContext.Provider value={value}>
+      {children}
+      <Popover
+        open={Boolean(anchorEl)}
+        anchorEl={anchorEl}
+        // Click-away and Escape go through the owner, which reverts its input and then calls close
+        onClose={() => ownerRef.current?.onClose()}
+        {...popoverProps}
+        TransitionProps={{ onEntered: focusActiveCell }}
+        PaperProps={{
+          ...PaperProps,
+          sx: [
+            getPaperSx(width),
+            ...(Array.isArray(PaperProps?.sx) ? PaperProps.sx : [PaperProps?.sx]),
+          ],
+        }}
+      >
+        <Box
+          ref={(node: HTMLElement | null) => {
+            if (node && container) node.appendChild(container);
+          }}
+        />
+      </Popover>
+    </SharedDatePickerPopoverContext.Provider>
+  );
+};
+
+interface DatePickerPopoverProps {
+  open: boolean;
+  anchorEl: HTMLElement | null;
+  onClose: () => void;
+  // Paper width; wider for a presets list beside the calendar
+  width?: number;
+  children: React.ReactNode;
+}
+
+/**
+ * Calendar popover of one field: portals into the shared popover under a DatePickerPopoverProvider,
+ * otherwise mounts its own Popover on first open and unmounts it again once the close transition ends
+ */
+export const DatePickerPopover: React.FC<DatePickerPopoverProps> = ({
+  open,
+  anchorEl,
+  onClose,
+  width = DEFAULT_WIDTH,
+  children,
+}) => {
+  const shared = useSharedDatePickerPopover();
+  const [owner] = useState(() => ({}));
+  const [isMounted, setIsMounted] = useState(false);
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
+
+  useEffect(() => {
+    if (!shared || !open || !anchorEl) return;
+    shared.open(owner, anchorEl, () => onCloseRef.current(), width);
+    return () => shared.close(owner);
+  }, [shared, owner, open, anchorEl, width]);
+
+  if (open && !shared && !isMounted) setIsMounted(true);
+
+  if (shared) return open && shared.container ? createPortal(children, shared.container) : null;
+  if (!open && !isMounted) return null;
+
+  return (
+    <Popover
+      // Waits for an anchor when opened without a click (open prop on mount)
+      open={open && Boolean(anchorEl)}
+      anchorEl={anchorEl}
+      onClose={onClose}
+      {...popoverProps}
+      TransitionProps={{ onEntered: focusActiveCell, onExited: () => setIsMounted(false) }}
+      PaperProps={{ sx: getPaperSx(width) }}
+    >
+      {children}
+    </Popover>
+  );
+};
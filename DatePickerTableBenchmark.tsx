@@ -0,0 +1,66 @@
+import React, { Profiler, useState } from 'react';
+import { Table, TableBody, TableCell, TableHead, TableRow } from '@mui/material';
+
+import ThaiDatePicker from './index';
+import ThaiDateDisplay from './ThaiDateDisplay';
+import { DatePickerPopoverProvider } from './DatePickerPopoverProvider';
+import { addDays, formatADDate } from './dateUtils';
+
+// 'picker': a field with its own popover per row; 'shared': fields under one DatePickerPopoverProvider;
+// 'display': ThaiDateDisplay everywhere and a field only in the row being edited (click a cell)
+export type DatePickerTableBenchmarkMode = 'picker' | 'shared' | 'display';
+
+interface DatePickerTableBenchmarkProps {
+  rows?: number;
+  mode?: DatePickerTableBenchmarkMode;
+  // React Profiler timings of each commit (mount, typing, opening a calendar), for the caller to log or collect
+  onRender: (phase: string, actualDuration: number) => void;
+}
+
+// Editable table with one date column, to compare the cost of hundreds of pickers in each mode
+const DatePickerTableBenchmark: React.FC<DatePickerTableBenchmarkProps> = ({
+  rows = 500,
+  mode = 'shared',
+  onRender,
+}) => {
+  const [values, setValues] = useState(() =>
+    Array.from({ length: rows }, (_, i) => formatADDate(addDays(new Date(2026, 0, 1), i)))
+  );
+  const [editingRow, setEditingRow] = useState<number | null>(null);
+
+  const handleChange = (index: number, value: string) =>
+    setValues((prev) => prev.map((v, i) => (i === index ? value : v)));
+
+  const table = (
+    <Table size="small">
+      <TableHead>
+        <TableRow>
+          <TableCell>#</TableCell>
+          <TableCell>วันที่</TableCell>
+        </TableRow>
+      </TableHead>
+      <TableBody>
+        {values.map((value, index) => (
+          <TableRow key={index}>
+            <TableCell>{index + 1}</TableCell>
+            <TableCell onClick={mode === 'display' ? () => setEditingRow(index) : undefined}>
+              {mode === 'display' && editingRow !== index ? (
+                <ThaiDateDisplay value={value} />
+              ) : (
+                <ThaiDatePicker size="small" value={value} onChange={(v) => handleChange(index, v)} />
+              )}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+
+  return (
+    <Profiler id={`DatePickerTableBenchmark-${mode}`} onRender={(_, phase, actualDuration) => onRender(phase, actualDuration)}>
+      {mode === 'picker' ? table : <DatePickerPopoverProvider>{table}</DatePickerPopoverProvider>}
+    </Profiler>
+  );
+};
+
+export default DatePickerTableBenchmark;
@@ -0,0 +1,312 @@
+import React, { useMemo, useRef } from 'react';
+import { Box, Button, Grid, Divider, SxProps, Theme } from '@mui/material';
+
+import { BE_OFFSET, formatADDate, isSameDay, isDateDisabled, isMonthOutOfRange, isYearOutOfRange } from './dateUtils';
+import { HolidayProvider, thaiHolidayProvider } from './holidays';
+import { getThaiLunarDate, formatThaiLunarDate } from './lunarCalendar';
+import { useDatePickerLocale, getLocaleYear, formatLocaleDateLabel, getWeekdayOrder } from './locale';
+import { useThaiCalendar, UseThaiCalendarOptions } from './useThaiCalendar';
+import ThaiTimeSection from './ThaiTimeSection';
+import ThaiCalendarHeader, { ThaiCalendarHeaderProps } from './ThaiCalendarHeader';
+import ThaiCalendarWeekdays, { ThaiCalendarWeekdaysProps } from './ThaiCalendarWeekdays';
+import ThaiCalendarDay, { ThaiCalendarDayProps, DateHighlight } from './ThaiCalendarDay';
+import ThaiCalendarFooter, { ThaiCalendarFooterProps } from './ThaiCalendarFooter';
+import ThaiCalendarPresets, { ThaiCalendarPresetsProps, DatePresetsLayout } from './ThaiCalendarPresets';
+
+// Replaceable parts, MUI style: a slot swaps the component, slotProps add props to the default (or custom) one
+export interface ThaiCalendarSlots {
+  calendarHeader?: React.ElementType<ThaiCalendarHeaderProps>;
+  weekdays?: React.ElementType<ThaiCalendarWeekdaysProps>;
+  day?: React.ElementType<ThaiCalendarDayProps>;
+  footer?: React.ElementType<ThaiCalendarFooterProps>;
+  presets?: React.ElementType<ThaiCalendarPresetsProps>;
+}
+
+export interface ThaiCalendarSlotProps {
+  calendarHeader?: Partial<ThaiCalendarHeaderProps>;
+  weekdays?: Partial<ThaiCalendarWeekdaysProps>;
+  // A function gets the day state, e.g. to style only some days
+  day?: Partial<ThaiCalendarDayProps> | ((state: ThaiCalendarDayProps) => Partial<ThaiCalendarDayProps>);
+  footer?: Partial<ThaiCalendarFooterProps>;
+  presets?: Partial<ThaiCalendarPresetsProps>;
+}
+
+export type ThaiCalendarProps = UseThaiCalendarOptions & {
+  // Mark weekends and holidays in day view (holiday name shown in a tooltip)
+  showHolidays?: boolean;
+  holidayProvider?: HolidayProvider;
+  // Print the lunar day (ขึ้น/แรม) under each day number and mark วันพระ
+  showLunar?: boolean;
+  // Colour or badge per AD date: { "2026-02-18": { badge: 3, color: "success.main", label: "มีนัด 3 รายการ" } }
+  highlightedDates?: Record<string, DateHighlight>;
+  // Renders a whole day cell; return <ThaiCalendarDay {...state} /> inside your own markup to keep the default look
+  renderDay?: (date: Date, state: ThaiCalendarDayProps) => React.ReactNode;
+  // Where the presets go: chips above the footer (default) or a list beside the calendar
+  presetsLayout?: DatePresetsLayout;
+  slots?: ThaiCalendarSlots;
+  slotProps?: ThaiCalendarSlotProps;
+  sx?: SxProps<Theme>;
+};
+
+const chunk = <T,>(items: T[], size: number): T[][] => {
+  const rows: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    rows.push(items.slice(i, i + size));
+  }
+  return rows;
+};
+
+// Inline calendar (no text field): header, year/month/day grids, time selection and footer
+const ThaiCalendar: React.FC<ThaiCalendarProps> = ({
+  showHolidays = false,
+  holidayProvider = thaiHolidayProvider,
+  showLunar = false,
+  highlightedDates,
+  renderDay,
+  presetsLayout = 'chips',
+  slots = {},
+  slotProps = {},
+  sx,
+  ...calendarOptions
+}) => {
+  const calendar = useThaiCalendar(calendarOptions);
+  const {
+    withTime,
+    withSeconds,
+    minuteStep,
+    constraints,
+    timeConstraints,
+    today,
+    multiple,
+    selectedDates,
+    selectedPartial,
+    historicalBE,
+    viewDate,
+    viewMode,
+    currentYearBE,
+    yearPage,
+    calendarGrid,
+    activeDate,
+    selectedTime,
+    gridRef,
+    timeSectionRef,
+    handleDateSelect,
+    handleYearSelect,
+    handleMonthSelect,
+    handleTimeChange,
+    handleGridKeyDown,
+  } = calendar;
+  const { onSelectionComplete } = calendarOptions;
+  const locale = useDatePickerLocale();
+  const { labels, eras, eraDisplay } = locale;
+  const dayHeight = showLunar ? 48 : 36;
+  const Header = slots.calendarHeader ?? ThaiCalendarHeader;
+  const Weekdays = slots.weekdays ?? ThaiCalendarWeekdays;
+  const Day = slots.day ?? ThaiCalendarDay;
+  const Footer = slots.footer ?? ThaiCalendarFooter;
+  const Presets = slots.presets ?? ThaiCalendarPresets;
+
+  // Year numbers in the displayed era; 'both' reads BE first and adds the AD year in the footer
+  const toDisplayYear = (yearAD: number) => (eraDisplay === 'AD' ? yearAD : yearAD + BE_OFFSET);
+  const formatYear = (year: number) => (eraDisplay === 'AD' ? eras.AD(year) : eras.BE(year));
+  const headerYear =
+    viewMode === 'year'
+      ? `${formatYear(toDisplayYear(yearPage[1]))} – ${formatYear(toDisplayYear(yearPage[yearPage.length - 2]))}`
+      : formatYear(eraDisplay === 'AD' ? viewDate.getFullYear() : currentYearBE);
+
+  // Latest select handler behind a stable per-day onSelect, so memoised day cells skip re-rendering
+  const handleDateSelectRef = useRef(handleDateSelect);
+  handleDateSelectRef.current = handleDateSelect;
+
+  // Per-month cell data that only changes with the page: same objects across renders for the memoised cells
+  const viewYear = viewDate.getFullYear();
+  const viewMonth = viewDate.getMonth();
+  const monthDays = useMemo(
+    () =>
+      Array.from({ length: new Date(viewYear, viewMonth + 1, 0).getDate() }, (_, i) => {
+        const date = new Date(viewYear, viewMonth, i + 1);
+        const lunar = showLunar ? getThaiLunarDate(date) : null;
+        return {
+          date,
+          holiday: showHolidays ? holidayProvider.getHoliday(date) : null,
+          isWeekend: showHolidays && holidayProvider.isWeekend(date),
+          lunar,
+          lunarLabel: lunar ? `${formatThaiLunarDate(lunar)}${lunar.isHolyDay ? ` ${locale.labels.holyDay}` : ''}` : '',
+          dateLabel: formatLocaleDateLabel(date, locale, historicalBE),
+          onSelect: () => handleDateSelectRef.current(i + 1),
+        };
+      }),
+    [viewYear, viewMonth, showHolidays, holidayProvider, showLunar, locale, historicalBE]
+  );
+
+  // Day cell state shared by renderDay, the day slot and its slotProps
+  const getDayState = (day: number): ThaiCalendarDayProps => {
+    const { date, holiday, isWeekend, lunar, lunarLabel, dateLabel, onSelect } = monthDays[day - 1];
+    const highlight = highlightedDates?.[formatADDate(date)] ?? null;
+    const details = [holiday?.name, lunarLabel, highlight?.label].filter(Boolean).join(', ');
+    return {
+      date,
+      isSelected: selectedDates.some((d) => isSameDay(d, date)),
+      isToday: isSameDay(today, date),
+      isDisabled: isDateDisabled(date, constraints),
+      isOffDay: showHolidays && (!!holiday || isWeekend),
+      holiday,
+      lunar,
+      highlight,
+      details,
+      label: details ? `${dateLabel} (${details})` : dateLabel,
+      tabIndex: activeDate.getDate() === day ? 0 : -1,
+      height: dayHeight,
+      onSelect,
+    };
+  };
+
+  const content = (
+    <>
+      <Header
+        calendar={calendar}
+        monthLabel={locale.months[viewDate.getMonth()]}
+        yearLabel={headerYear}
+        {...slotProps.calendarHeader}
+      />
+      {viewMode === 'year' && (
+        <Grid
+          container
+          spacing={1}
+          columns={4}
+          ref={gridRef}
+          role="grid"
+          aria-label={labels.chooseYear}
+          onKeyDown={handleGridKeyDown}
+        >
+          {chunk(yearPage, 4).map((row, rowIndex) => (
+            <Box role="row" key={rowIndex} sx={{ display: 'contents' }}>
+              {row.map((year) => {
+                const isSelected =
+                  selectedDates.some((d) => d.getFullYear() === year) || selectedPartial?.yearAD === year;
+                // First and last cells belong to the neighbouring decades
+                const isOutsideDecade = year === yearPage[0] || year === yearPage[yearPage.length - 1];
+                return (
+                  <Grid xs={1} key={year} role="gridcell" aria-selected={isSelected}>
+                    <Button
+                      fullWidth
+                      disabled={isYearOutOfRange(year, constraints)}
+                      tabIndex={activeDate.getFullYear() === year ? 0 : -1}
+                      aria-label={formatYear(toDisplayYear(year))}
+                      color={isOutsideDecade && !isSelected ? 'inherit' : 'primary'}
+                      sx={{ opacity: isOutsideDecade ? 0.6 : 1 }}
+                      onClick={() => handleYearSelect(year)}
+                    >
+                      {toDisplayYear(year)}
+                    </Button>
+                  </Grid>
+                );
+              })}
+            </Box>
+          ))}
+        </Grid>
+      )}
+
+      {viewMode === 'month' && (
+        <Grid
+          container
+          spacing={1}
+          columns={3}
+          ref={gridRef}
+          role="grid"
+          aria-label={`${labels.chooseMonth} ${headerYear}`}
+          onKeyDown={handleGridKeyDown}
+        >
+          {chunk(
+            locale.months.map((m, i) => ({ name: m, index: i })),
+            3
+          ).map((row, rowIndex) => (
+            <Box role="row" key={rowIndex} sx={{ display: 'contents' }}>
+              {row.map(({ name, index: i }) => {
+                const isSelected =
+                  selectedDates.some((d) => d.getFullYear() === viewDate.getFullYear() && d.getMonth() === i) ||
+                  (selectedPartial?.yearAD === viewDate.getFullYear() && selectedPartial.monthIndex === i);
+                return (
+                  <Grid xs={1} key={i} role="gridcell" aria-selected={isSelected}>
+                    <Button
+                      fullWidth
+                      disabled={isMonthOutOfRange(viewDate.getFullYear(), i, constraints)}
+                      tabIndex={activeDate.getMonth() === i ? 0 : -1}
+                      aria-label={`${name} ${getLocaleYear(new Date(viewDate.getFullYear(), i, 1), locale, historicalBE)}`}
+                      onClick={() => handleMonthSelect(i)}
+                    >
+                      {name}
+                    </Button>
+                  </Grid>
+                );
+              })}
+            </Box>
+          ))}
+        </Grid>
+      )}
+      {viewMode === 'day' && (
+        <Box
+          role="grid"
+          aria-label={`${locale.months[viewDate.getMonth()]} ${getLocaleYear(viewDate, locale, historicalBE)}`}
+          aria-multiselectable={multiple || undefined}
+        >
+          <Weekdays weekdays={getWeekdayOrder(locale)} {...slotProps.weekdays} />
+          <Grid container spacing={0.5} columns={7} ref={gridRef} role="rowgroup" onKeyDown={handleGridKeyDown}>
+            {chunk(calendarGrid, 7).map((week, weekIndex) => (
+              <Box role="row" key={weekIndex} sx={{ display: 'contents' }}>
+                {week.map((day, index) => {
+                  if (day === null) {
+                    return <Grid xs={1} key={`empty-${index}`} sx={{ height: dayHeight }} role="gridcell" />;
+                  }
+
+                  const state = getDayState(day);
+                  const dayProps = typeof slotProps.day === 'function' ? slotProps.day(state) : slotProps.day;
+                  return (
+                    <Grid xs={1} key={`day-${day}`} role="gridcell" aria-selected={state.isSelected}>
+                      {renderDay ? renderDay(state.date, state) : <Day {...state} {...dayProps} />}
+                    </Grid>
+                  );
+                })}
+              </Box>
+            ))}
+          </Grid>
+        </Box>
+      )}
+
+      {/* Time Selection */}
+      {withTime && (
+        <Box mt={2} ref={timeSectionRef}>
+          <Divider sx={{ mb: 2 }} />
+          <ThaiTimeSection
+            value={selectedTime}
+            onChange={handleTimeChange}
+            withSeconds={withSeconds}
+            minuteStep={minuteStep}
+            {...timeConstraints}
+          />
+        </Box>
+      )}
+
+      {presetsLayout === 'chips' && <Presets calendar={calendar} layout="chips" {...slotProps.presets} />}
+
+      <Footer calendar={calendar} onSelectionComplete={onSelectionComplete} {...slotProps.footer} />
+    </>
+  );
+
+  if (presetsLayout === 'list' && calendar.presets.length > 0) {
+    return (
+      <Box display="flex" gap={2} sx={sx}>
+        <Box width={160} flexShrink={0} pr={1} borderRight="1px solid #eee">
+          <Presets calendar={calendar} layout="list" {...slotProps.presets} />
+        </Box>
+        <Box width={288} flexShrink={0}>
+          {content}
+        </Box>
+      </Box>
+    );
+  }
+
+  return <Box sx={sx}>{content}</Box>;
+};
+
+export default ThaiCalendar;
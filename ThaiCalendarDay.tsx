@@ -0,0 +1,144 @@
+import React from 'react';
+import { Box, Button, Badge, Tooltip, SxProps, Theme } from '@mui/material';
+
+import { ThaiHoliday } from './holidays';
+import { ThaiLunarDate, formatThaiLunarDay } from './lunarCalendar';
+
+// Marks attached to a date through highlightedDates, e.g. days with appointments
+export interface DateHighlight {
+  color?: string; // Theme colour ("success.main") or CSS colour for the day number and the badge
+  badge?: React.ReactNode | true; // Badge content such as a count; true draws a dot
+  label?: string; // Added to the tooltip and aria-label ("มีนัด 3 รายการ")
+}
+
+// Everything known about one day cell; renderDay and the day slot receive it
+export interface ThaiCalendarDayProps {
+  date: Date;
+  isSelected: boolean;
+  isToday: boolean;
+  isDisabled: boolean;
+  // Weekend or holiday while showHolidays is on
+  isOffDay: boolean;
+  holiday: ThaiHoliday | null;
+  lunar: ThaiLunarDate | null;
+  highlight: DateHighlight | null;
+  // Holiday, lunar and highlight texts joined for the tooltip
+  details: string;
+  // Full screen reader label, details included
+  label: string;
+  // Roving tabIndex: 0 on the cell that keyboard navigation starts from
+  tabIndex: number;
+  height: number;
+  onSelect: () => void;
+  sx?: SxProps<Theme>;
+}
+
+// Default day cell: day number, lunar caption, holiday dot, highlight badge and a tooltip with the details
+const ThaiCalendarDay: React.FC<ThaiCalendarDayProps> = ({
+  date,
+  isSelected,
+  isToday,
+  isDisabled,
+  isOffDay,
+  holiday,
+  lunar,
+  highlight,
+  details,
+  label,
+  tabIndex,
+  height,
+  onSelect,
+  sx,
+}) => {
+  const dayButton = (
+    <Button
+      disableElevation
+      fullWidth
+      disabled={isDisabled}
+      tabIndex={tabIndex}
+      aria-label={label}
+      aria-current={isToday ? 'date' : undefined}
+      variant={isSelected ? 'contained' : isToday ? 'outlined' : 'text'}
+      color={isSelected ? 'primary' : 'inherit'}
+      sx={[
+        {
+          minWidth: 0,
+          p: 0,
+          height,
+          borderRadius: 2,
+          flexDirection: 'column',
+          fontWeight: isSelected || isToday ? 'bold' : 'normal',
+          borderColor: isToday && !isSelected ? 'primary.main' : undefined,
+          color:
+            isSelected || isDisabled
+              ? undefined
+              : isToday
+                ? 'primary.main'
+                : highlight?.color ?? (isOffDay ? 'error.main' : undefined),
+          // Holiday marker: small dot under the day number (top right when the lunar day takes that space)
+          '&::after': holiday
+            ? {
+                content: '""',
+                position: 'absolute',
+                ...(lunar ? { top: 4, right: 4 } : { bottom: 4 }),
+                width: 4,
+                height: 4,
+                borderRadius: '50%',
+                bgcolor: isSelected ? 'common.white' : 'error.main',
+              }
+            : undefined,
+        },
+        ...(Array.isArray(sx) ? sx : [sx]),
+      ]}
+      onClick={onSelect}
+    >
+      {date.getDate()}
+      {lunar && (
+        <Box
+          component="span"
+          aria-hidden
+          sx={{
+            fontSize: 9,
+            lineHeight: 1.2,
+            fontWeight: lunar.isHolyDay ? 'bold' : 'normal',
+            color: isSelected ? 'inherit' : lunar.isHolyDay ? 'warning.dark' : 'text.secondary',
+          }}
+        >
+          {formatThaiLunarDay(lunar)}
+        </Box>
+      )}
+    </Button>
+  );
+
+  const badge = highlight?.badge;
+  const content =
+    badge !== undefined && badge !== null && badge !== false ? (
+      <Badge
+        variant={badge === true ? 'dot' : 'standard'}
+        badgeContent={badge === true ? undefined : badge}
+        overlap="circular"
+        sx={{
+          display: 'block',
+          '& .MuiBadge-badge': { bgcolor: highlight?.color ?? 'secondary.main', color: 'common.white' },
+        }}
+      >
+        {dayButton}
+      </Badge>
+    ) : (
+      dayButton
+    );
+
+  return details ? (
+    // Span wrapper keeps the tooltip working on disabled days
+    <Tooltip title={details} arrow>
+      <Box component="span" display="block">
+        {content}
+      </Box>
+    </Tooltip>
+  ) : (
+    content
+  );
+};
+
+// Memoised: a day only re-renders when its own state changes (selection, focus, highlight)
+export default React.memo(ThaiCalendarDay);
@@ -0,0 +1,78 @@
+import React from 'react';
+import { Box, Button, Typography, SxProps, Theme } from '@mui/material';
+import { Check } from '@mui/icons-material';
+
+import { useDatePickerLocale } from './locale';
+import { ThaiCalendarState } from './useThaiCalendar';
+
+export interface ThaiCalendarFooterProps {
+  calendar: ThaiCalendarState;
+  // Set when the calendar sits in a popover; shows ตกลง when picks do not close it (time, closeOnSelect off, multiple)
+  onSelectionComplete?: () => void;
+  sx?: SxProps<Theme>;
+}
+
+// Default footer: Today, the partial-date pick, and ยกเลิก + ตกลง / selected count / AD year on the right
+const ThaiCalendarFooter: React.FC<ThaiCalendarFooterProps> = ({ calendar, onSelectionComplete, sx }) => {
+  const { labels, eras, eraDisplay } = useDatePickerLocale();
+  const { granularity, viewMode, viewDate, multiple, closeOnSelect, onCancel, selectedDates, allowPartial, selectedPartial } =
+    calendar;
+  const isPartialSelected =
+    !!selectedPartial &&
+    selectedPartial.yearAD === viewDate.getFullYear() &&
+    (viewMode === 'day' ? selectedPartial.monthIndex === viewDate.getMonth() : selectedPartial.monthIndex === null);
+
+  return (
+    <Box
+      mt={2}
+      pt={1}
+      borderTop="1px solid #eee"
+      display="flex"
+      justifyContent="space-between"
+      alignItems="center"
+      sx={sx}
+    >
+      <Box display="flex">
+        <Button size="small" onClick={calendar.handleToday} disabled={calendar.isTodayDisabled}>
+          {labels.today[granularity]}
+        </Button>
+        {allowPartial && viewMode !== 'year' && (
+          <Button
+            size="small"
+            color="inherit"
+            onClick={calendar.handlePartialSelect}
+            disabled={calendar.isPartialSelectDisabled}
+            variant={isPartialSelected ? 'outlined' : 'text'}
+          >
+            {viewMode === 'day' ? labels.unknownDay : labels.unknownMonth}
+          </Button>
+        )}
+      </Box>
+
+      {multiple && !onSelectionComplete ? (
+        <Typography variant="caption" color="text.secondary">
+          {labels.selectedCount(selectedDates.length)}
+        </Typography>
+      ) : onSelectionComplete && !closeOnSelect ? (
+        <Box display="flex" gap={1}>
+          {onCancel && (
+            <Button size="small" color="inherit" onClick={onCancel}>
+              {labels.cancel}
+            </Button>
+          )}
+          <Button size="small" variant="contained" onClick={onSelectionComplete} startIcon={<Check />}>
+            {labels.ok}
+          </Button>
+        </Box>
+      ) : (
+        eraDisplay === 'both' && (
+          <Typography variant="caption" color="text.secondary">
+            {eras.AD(viewDate.getFullYear())}
+          </Typography>
+        )
+      )}
+    </Box>
+  );
+};
+
+export default ThaiCalendarFooter;
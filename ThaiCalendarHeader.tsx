@@ -0,0 +1,105 @@
+import React from 'react';
+import { Box, IconButton, Typography, SxProps, Theme } from '@mui/material';
+import { ChevronLeft, ChevronRight, KeyboardDoubleArrowLeft, KeyboardDoubleArrowRight } from '@mui/icons-material';
+
+import { useDatePickerLocale } from './locale';
+import { ThaiCalendarState } from './useThaiCalendar';
+
+export interface ThaiCalendarHeaderProps {
+  calendar: ThaiCalendarState;
+  // Month name of the shown page
+  monthLabel: string;
+  // Year of the shown page with its era ("พ.ศ. 2569"), or the decade in year view ("พ.ศ. 2560 – พ.ศ. 2569")
+  yearLabel: string;
+  sx?: SxProps<Theme>;
+}
+
+// Lets non-button elements (header labels) behave like buttons for Enter/Space
+const activateOnKey = (e: React.KeyboardEvent, action: () => void) => {
+  if (e.key === 'Enter' || e.key === ' ') {
+    e.preventDefault();
+    action();
+  }
+};
+
+// Default calendar header: prev/next (and century jumps in year view) around the month and year labels
+const ThaiCalendarHeader: React.FC<ThaiCalendarHeaderProps> = ({ calendar, monthLabel, yearLabel, sx }) => {
+  const { labels } = useDatePickerLocale();
+  const { views, viewMode, changeViewMode } = calendar;
+
+  return (
+    <Box display="flex" justifyContent="space-between" alignItems="center" mb={2} sx={sx}>
+      <Box display="flex">
+        {viewMode === 'year' && (
+          <IconButton
+            onClick={calendar.handlePrevCentury}
+            size="small"
+            disabled={calendar.isPrevCenturyDisabled}
+            aria-label={labels.previousCentury}
+          >
+            <KeyboardDoubleArrowLeft />
+          </IconButton>
+        )}
+        <IconButton
+          onClick={calendar.handlePrev}
+          size="small"
+          disabled={calendar.isPrevDisabled}
+          aria-label={labels.previous[viewMode]}
+        >
+          <ChevronLeft />
+        </IconButton>
+      </Box>
+      <Box textAlign="center">
+        {views.includes('month') && (
+          <Typography
+            variant="subtitle1"
+            fontWeight="bold"
+            sx={{ cursor: 'pointer' }}
+            role="button"
+            tabIndex={0}
+            aria-label={`${labels.chooseMonth} (${monthLabel})`}
+            onClick={() => changeViewMode('month')}
+            onKeyDown={(e) => activateOnKey(e, () => changeViewMode('month'))}
+          >
+            {monthLabel}
+          </Typography>
+        )}
+
+        <Typography
+          variant="caption"
+          color="text.secondary"
+          sx={{ cursor: 'pointer' }}
+          role="button"
+          tabIndex={0}
+          aria-label={`${labels.chooseYear} (${yearLabel})`}
+          onClick={() => changeViewMode('year')}
+          onKeyDown={(e) => activateOnKey(e, () => changeViewMode('year'))}
+        >
+          {yearLabel}
+        </Typography>
+      </Box>
+      <Box display="flex">
+        <IconButton
+          onClick={calendar.handleNext}
+          size="small"
+          disabled={calendar.isNextDisabled}
+          aria-label={labels.next[viewMode]}
+        >
+          <ChevronRight />
+        </IconButton>
+        {viewMode === 'year' && (
+          <IconButton
+            onClick={calendar.handleNextCentury}
+            size="small"
+            disabled={calendar.isNextCenturyDisabled}
+            aria-label={labels.nextCentury}
+          >
+            <KeyboardDoubleArrowRight />
+          </IconButton>
+        )}
+      </Box>
+    </Box>
+  );
+};
+
+export default ThaiCalendarHeader;
@@ -0,0 +1,60 @@
+import React from 'react';
+import { Box, Chip, List, ListItemButton, ListItemText, SxProps, Theme } from '@mui/material';
+
+import { isSameDay } from './dateUtils';
+import { useDatePickerLocale } from './locale';
+import { ThaiCalendarState } from './useThaiCalendar';
+
+export type DatePresetsLayout = 'chips' | 'list';
+
+export interface ThaiCalendarPresetsProps {
+  calendar: ThaiCalendarState;
+  // chips: a wrapping row above the footer; list: a column beside the calendar
+  layout?: DatePresetsLayout;
+  sx?: SxProps<Theme>;
+}
+
+// Default presets panel: one button per preset, marked when its day is selected, disabled outside the constraints
+const ThaiCalendarPresets: React.FC<ThaiCalendarPresetsProps> = ({ calendar, layout = 'chips', sx }) => {
+  const { labels } = useDatePickerLocale();
+  const { presets, selectedDates, handlePresetSelect } = calendar;
+  const isPresetSelected = (date: Date) => selectedDates.some((d) => isSameDay(d, date));
+
+  if (presets.length === 0) return null;
+
+  if (layout === 'list') {
+    return (
+      <List dense disablePadding aria-label={labels.presetsLabel} sx={sx}>
+        {presets.map(({ label, date, isDisabled }) => (
+          <ListItemButton
+            key={label}
+            selected={isPresetSelected(date)}
+            disabled={isDisabled}
+            onClick={() => handlePresetSelect(date)}
+            sx={{ borderRadius: 1 }}
+          >
+            <ListItemText primary={label} />
+          </ListItemButton>
+        ))}
+      </List>
+    );
+  }
+
+  return (
+    <Box role="group" aria-label={labels.presetsLabel} display="flex" flexWrap="wrap" gap={0.5} mt={2} sx={sx}>
+      {presets.map(({ label, date, isDisabled }) => (
+        <Chip
+          key={label}
+          size="small"
+          label={label}
+          color="primary"
+          variant={isPresetSelected(date) ? 'filled' : 'outlined'}
+          disabled={isDisabled}
+          onClick={() => handlePresetSelect(date)}
+        />
+      ))}
+    </Box>
+  );
+};
+
+export default ThaiCalendarPresets;
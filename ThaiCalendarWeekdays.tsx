@@ -0,0 +1,29 @@
+import React from 'react';
+import { Grid, Typography, SxProps, Theme } from '@mui/material';
+
+import { useDatePickerLocale } from './locale';
+
+export interface ThaiCalendarWeekdaysProps {
+  // Weekday indexes (0 = Sunday) in display order, following the locale's first day of week
+  weekdays: number[];
+  sx?: SxProps<Theme>;
+}
+
+// Default weekday row above the day grid
+const ThaiCalendarWeekdays: React.FC<ThaiCalendarWeekdaysProps> = ({ weekdays, sx }) => {
+  const locale = useDatePickerLocale();
+
+  return (
+    <Grid container spacing={0.5} mb={1} columns={7} role="row" sx={sx}>
+      {weekdays.map((i) => (
+        <Grid xs={1} key={i} textAlign={'center'} role="columnheader" aria-label={locale.weekdays[i]}>
+          <Typography align="center" variant="caption" color="text.secondary" fontWeight="bold">
+            {locale.weekdaysShort[i]}
+          </Typography>
+        </Grid>
+      ))}
+    </Grid>
+  );
+};
+
+export default ThaiCalendarWeekdays;
@@ -0,0 +1,87 @@
+import React from 'react';
+import { Typography, TypographyProps } from '@mui/material';
+
+import {
+  formatThai as formatThaiPattern,
+  ThaiFormatOptions,
+  parseADPartialDate,
+  isPartialDateComplete,
+  formatThaiPartialDate,
+} from './dateUtils';
+import { ViewMode, ValueFormatOption, DEFAULT_VIEWS, getGranularity, getValueFormat, getPickerYearOptions, getDefaultDisplayFormat } from './pickerUtils';
+import { useDatePickerLocale } from './locale';
+import { useDatePickerClock } from './clock';
+
+export interface ThaiDateDisplayProps extends Omit<TypographyProps, 'children'> {
+  value: string; // AD string, same format as ThaiDatePicker's value
+  // Same meaning as on ThaiDatePicker, so a cell reads exactly like the field that edits it
+  withTime?: boolean;
+  withSeconds?: boolean;
+  thaiTimeSuffix?: boolean;
+  views?: ViewMode[];
+  timeZone?: string;
+  valueFormat?: ValueFormatOption;
+  historicalBE?: boolean;
+  minYear?: number;
+  maxYear?: number;
+  allowPartial?: boolean;
+  displayFormat?: string;
+  displayFormatOptions?: ThaiFormatOptions;
+  // Shown for an empty or unreadable value
+  emptyText?: React.ReactNode;
+}
+
+// Read-only text of a picker value for table cells: no input, popover or calendar state, so it is cheap to render
+// by the hundred (swap in ThaiDatePicker for the row being edited)
+const ThaiDateDisplay: React.FC<ThaiDateDisplayProps> = ({
+  value,
+  withTime: withTimeProp = false,
+  withSeconds = false,
+  thaiTimeSuffix = false,
+  views = DEFAULT_VIEWS,
+  timeZone,
+  valueFormat,
+  historicalBE = false,
+  minYear,
+  maxYear,
+  allowPartial = false,
+  displayFormat,
+  displayFormatOptions,
+  emptyText = '',
+  ...typographyProps
+}) => {
+  const locale = useDatePickerLocale();
+  const clock = useDatePickerClock();
+  const yearOptions = getPickerYearOptions({ historicalBE, eraDisplay: locale.eraDisplay, minYear, maxYear, clock });
+  const { era } = yearOptions;
+  const granularity = getGranularity(views);
+  const withTime = withTimeProp && granularity === 'day';
+  const format = getValueFormat(granularity, { withTime, withSeconds, valueFormat, timeZone, ...yearOptions });
+  const pattern = displayFormat ?? getDefaultDisplayFormat(granularity, { era, withTime, withSeconds, thaiTimeSuffix });
+
+  const partial = allowPartial && granularity === 'day' && !withTime ? parseADPartialDate(value) : null;
+  const date = format.parseAD(value);
+  const text =
+    partial && !isPartialDateComplete(partial)
+      ? formatThaiPartialDate(partial, { historical: historicalBE, era })
+      : date && pattern
+        ? formatThaiPattern(date, pattern, {
+            historical: historicalBE,
+            monthNames: locale.months,
+            monthNamesShort: locale.monthsShort,
+            dayNames: locale.weekdays,
+            dayNamesShort: locale.weekdaysShort,
+            ...displayFormatOptions,
+          })
+        : date
+          ? format.formatThai(date)
+          : '';
+
+  return (
+    <Typography component="span" variant="inherit" {...typographyProps}>
+      {text || emptyText}
+    </Typography>
+  );
+};
+
+export default ThaiDateDisplay;
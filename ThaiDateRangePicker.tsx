@@ -0,0 +1,323 @@
+import React, { useState, useEffect } from 'react';
+import {
+  TextField,
+  Popover,
+  IconButton,
+  InputAdornment,
+  Box,
+  Typography,
+  Button,
+  Grid,
+  TextFieldProps,
+} from '@mui/material';
+import { DateRange, ChevronLeft, ChevronRight } from '@mui/icons-material';
+
+import {
+  formatThaiDate,
+  parseThaiDate,
+  formatADDate,
+  parseADDate,
+  formatThaiDateRange,
+  isSameDay,
+  getDaysInMonth,
+  getFirstDayOfMonth,
+} from './dateUtils';
+import { useDatePickerLocale, formatLocaleYear, getWeekdayOrder } from './locale';
+import { useDatePickerClock } from './clock';
+
+// Both sides are AD strings ("2026-02-18"); an empty string means "not selected"
+export interface ThaiDateRange {
+  start: string;
+  end: string;
+}
+
+interface ThaiDateRangePickerProps extends Omit<TextFieldProps, 'value' | 'onChange'> {
+  value: ThaiDateRange;
+  onChange: (value: ThaiDateRange) => void;
+  // "Now" for the initial month and the today marker (default: DatePickerClockProvider or the system clock)
+  referenceDate?: Date;
+}
+
+const RANGE_SEPARATOR = ' – ';
+const EMPTY_RANGE: ThaiDateRange = { start: '', end: '' };
+
+const buildMonthGrid = (year: number, month: number, firstDayOfWeek: number): (number | null)[] => {
+  const days: (number | null)[] = [];
+  for (let i = 0; i < getFirstDayOfMonth(year, month, firstDayOfWeek); i++) {
+    days.push(null);
+  }
+  for (let i = 1; i <= getDaysInMonth(year, month); i++) {
+    days.push(i);
+  }
+  return days;
+};
+
+const ThaiDateRangePicker: React.FC<ThaiDateRangePickerProps> = ({
+  label,
+  value,
+  onChange,
+  placeholder,
+  disabled = false,
+  referenceDate,
+  InputProps,
+  ...textFieldProps
+}) => {
+  const locale = useDatePickerLocale();
+  const { labels } = locale;
+  const clock = useDatePickerClock(referenceDate);
+  // Typed and shown dates use AD years only when the locale shows AD only
+  const yearOptions = { era: locale.eraDisplay === 'AD' ? ('AD' as const) : ('BE' as const), clock };
+  const [inputValue, setInputValue] = useState('');
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+
+  // ViewDate is the month shown on the left; the right panel always shows the month after it
+  const [viewDate, setViewDate] = useState<Date>(clock);
+  // Start date picked in the popover while waiting for the second click
+  const [pendingStart, setPendingStart] = useState<Date | null>(null);
+  const [hoverDate, setHoverDate] = useState<Date | null>(null);
+
+  const effectivePlaceholder = placeholder || `DD/MM/YYYY${RANGE_SEPARATOR}DD/MM/YYYY`;
+  const isCalendarOpen = Boolean(anchorEl);
+
+  const startDate = parseADDate(value.start);
+  const endDate = parseADDate(value.end);
+
+  // Keep the BE display in sync with the AD range coming from the parent
+  useEffect(() => {
+    if (startDate && endDate) {
+      setInputValue(formatThaiDateRange(startDate, endDate, yearOptions));
+    } else if (!value.start && !value.end) {
+      setInputValue('');
+    }
+  }, [value.start, value.end]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const handleOpen = (event: React.MouseEvent<HTMLElement>) => {
+    if (disabled) return;
+    setAnchorEl(event.currentTarget.parentElement);
+    setPendingStart(null);
+    setHoverDate(null);
+    setViewDate(startDate || clock());
+  };
+
+  const handleClose = () => {
+    setAnchorEl(null);
+    setPendingStart(null);
+    setHoverDate(null);
+    // Revert partial typing to the last committed range
+    setInputValue(startDate && endDate ? formatThaiDateRange(startDate, endDate, yearOptions) : '');
+  };
+
+  // Handle Input Change (User types "DD/MM/YYYY – DD/MM/YYYY" in BE)
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const raw = e.target.value.replace(/[^0-9]/g, '').slice(0, 16);
+
+    const maskDate = (digits: string) => {
+      let formatted = '';
+      if (digits.length > 0) formatted += digits.slice(0, 2);
+      if (digits.length >= 3) formatted += '/' + digits.slice(2, 4);
+      if (digits.length >= 5) formatted += '/' + digits.slice(4, 8);
+      return formatted;
+    };
+
+    let formatted = maskDate(raw.slice(0, 8));
+    if (raw.length > 8) formatted += RANGE_SEPARATOR + maskDate(raw.slice(8));
+
+    setInputValue(formatted);
+
+    if (raw.length === 16) {
+      const start = parseThaiDate(maskDate(raw.slice(0, 8)), yearOptions);
+      const end = parseThaiDate(maskDate(raw.slice(8)), yearOptions);
+      // End before start is not a valid range
+      if (start && end && start.getTime() <= end.getTime()) {
+        onChange({ start: formatADDate(start), end: formatADDate(end) });
+        setViewDate(start);
+      } else {
+        onChange(EMPTY_RANGE);
+      }
+    } else if (raw.length === 0) {
+      onChange(EMPTY_RANGE);
+    }
+  };
+
+  const handlePrev = () => {
+    setViewDate(new Date(viewDate.getFullYear(), viewDate.getMonth() - 1, 1));
+  };
+
+  const handleNext = () => {
+    setViewDate(new Date(viewDate.getFullYear(), viewDate.getMonth() + 1, 1));
+  };
+
+  const handleDateSelect = (date: Date) => {
+    if (!pendingStart) {
+      setPendingStart(date);
+      setInputValue(formatThaiDateRange(date, null, yearOptions));
+      return;
+    }
+
+    // Clicking a day before the pending start swaps the two ends
+    const [start, end] = date.getTime() < pendingStart.getTime() ? [date, pendingStart] : [pendingStart, date];
+    onChange({ start: formatADDate(start), end: formatADDate(end) });
+    setInputValue(formatThaiDateRange(start, end, yearOptions));
+    setPendingStart(null);
+    setHoverDate(null);
+    setAnchorEl(null);
+  };
+
+  const handleClear = () => {
+    onChange(EMPTY_RANGE);
+    setInputValue('');
+    setPendingStart(null);
+  };
+
+  // While choosing the end, the hovered day acts as a provisional end
+  const rangeStart = pendingStart || startDate;
+  const rangeEnd = pendingStart ? hoverDate : endDate;
+  const [lowEnd, highEnd] =
+    rangeStart && rangeEnd && rangeEnd.getTime() < rangeStart.getTime() ? [rangeEnd, rangeStart] : [rangeStart, rangeEnd];
+
+  const renderMonth = (monthDate: Date) => {
+    const year = monthDate.getFullYear();
+    const month = monthDate.getMonth();
+    const today = clock();
+
+    return (
+      <Box width={280}>
+        <Typography variant="subtitle1" fontWeight="bold" textAlign="center" mb={1}>
+          {locale.months[month]} {formatLocaleYear(monthDate, locale)}
+        </Typography>
+        <Grid container spacing={0.5} mb={1} columns={7}>
+          {getWeekdayOrder(locale).map((i) => (
+            <Grid xs={1} key={i} textAlign={'center'}>
+              <Typography align="center" variant="caption" color="text.secondary" fontWeight="bold">
+                {locale.weekdaysShort[i]}
+              </Typography>
+            </Grid>
+          ))}
+        </Grid>
+        <Grid container spacing={0.5} columns={7} onMouseLeave={() => setHoverDate(null)}>
+          {buildMonthGrid(year, month, locale.firstDayOfWeek).map((day, index) => {
+            if (day === null) {
+              return <Grid xs={1} key={`empty-${index}`} sx={{ height: 36 }} />;
+            }
+
+            const date = new Date(year, month, day);
+            const isEndpoint = isSameDay(date, lowEnd) || isSameDay(date, highEnd);
+            const isInRange =
+              !!lowEnd && !!highEnd && date.getTime() > lowEnd.getTime() && date.getTime() < highEnd.getTime();
+            const isToday = isSameDay(date, today);
+
+            return (
+              <Grid xs={1} key={`day-${day}`}>
+                <Button
+                  disableElevation
+                  fullWidth
+                  variant={isEndpoint ? 'contained' : isToday ? 'outlined' : 'text'}
+                  color={isEndpoint ? 'primary' : 'inherit'}
+                  sx={{
+                    minWidth: 0,
+                    p: 0,
+                    height: 36,
+                    borderRadius: 2,
+                    fontWeight: isEndpoint || isToday ? 'bold' : 'normal',
+                    bgcolor: isInRange ? 'action.selected' : undefined,
+                    borderColor: isToday && !isEndpoint ? 'primary.main' : undefined,
+                    color: isToday && !isEndpoint ? 'primary.main' : undefined,
+                  }}
+                  onMouseEnter={() => setHoverDate(date)}
+                  onClick={() => handleDateSelect(date)}
+                >
+                  {day}
+                </Button>
+              </Grid>
+            );
+          })}
+        </Grid>
+      </Box>
+    );
+  };
+
+  const nextMonthDate = new Date(viewDate.getFullYear(), viewDate.getMonth() + 1, 1);
+
+  return (
+    <Box sx={{ width: textFieldProps.fullWidth ? '100%' : 'auto' }}>
+      <TextField
+        {...textFieldProps}
+        label={label}
+        value={inputValue}
+        onChange={handleInputChange}
+        placeholder={effectivePlaceholder}
+        disabled={disabled}
+        InputProps={{
+          ...InputProps,
+          endAdornment: (
+            <InputAdornment position="end">
+              <IconButton
+                size="small"
+                onClick={handleOpen}
+                edge="start"
+                disabled={disabled}
+                color={isCalendarOpen ? 'primary' : 'default'}
+                sx={{ p: 0.5 }}
+              >
+                <DateRange />
+              </IconButton>
+              {InputProps?.endAdornment}
+            </InputAdornment>
+          ),
+        }}
+        inputProps={{
+          ...textFieldProps.inputProps,
+          maxLength: 10 + RANGE_SEPARATOR.length + 10,
+        }}
+      />
+
+      <Popover
+        open={isCalendarOpen}
+        anchorEl={anchorEl}
+        onClose={handleClose}
+        anchorOrigin={{
+          vertical: 'bottom',
+          horizontal: 'left',
+        }}
+        transformOrigin={{
+          vertical: 'top',
+          horizontal: 'left',
+        }}
+        PaperProps={{
+          sx: {
+            mt: 1,
+            p: 2,
+            borderRadius: 2,
+          },
+        }}
+      >
+        <Box display="flex" gap={3} alignItems="flex-start">
+          <IconButton onClick={handlePrev} size="small">
+            <ChevronLeft />
+          </IconButton>
+          {renderMonth(viewDate)}
+          {renderMonth(nextMonthDate)}
+          <IconButton onClick={handleNext} size="small">
+            <ChevronRight />
+          </IconButton>
+        </Box>
+
+        {/* Footer */}
+        <Box mt={2} pt={1} borderTop="1px solid #eee" display="flex" justifyContent="space-between" alignItems="center">
+          <Button size="small" onClick={handleClear}>
+            {labels.clear}
+          </Button>
+          <Typography variant="caption" color="text.secondary">
+            {pendingStart
+              ? labels.rangeEndPrompt(formatThaiDate(pendingStart, yearOptions))
+              : startDate && endDate
+                ? formatThaiDateRange(startDate, endDate, yearOptions)
+                : labels.rangeStartPlaceholder}
+          </Typography>
+        </Box>
+      </Popover>
+    </Box>
+  );
+};
+
+export default ThaiDateRangePicker;
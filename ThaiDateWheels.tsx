@@ -0,0 +1,272 @@
+import React, { useEffect, useRef } from 'react';
+import { Box, Typography, SxProps, Theme } from '@mui/material';
+
+import {
+  BE_OFFSET,
+  SUPPORTED_YEAR_WINDOW,
+  TimeOfDay,
+  getDaysInMonth,
+  setTimeOfDay,
+  clampTime,
+  isDateDisabled,
+  isMonthOutOfRange,
+} from './dateUtils';
+import { TimeUnit, getTimeSegmentOptions } from './pickerUtils';
+import { useDatePickerLocale } from './locale';
+import { ThaiCalendarState } from './useThaiCalendar';
+
+const ITEM_HEIGHT = 44;
+// Odd, so one row sits in the middle band
+const VISIBLE_ITEMS = 5;
+const PADDING_ITEMS = (VISIBLE_ITEMS - 1) / 2;
+// Wait for momentum scrolling to stop before reading the row in the band
+const SETTLE_DELAY = 120;
+
+interface WheelOption {
+  value: number;
+  label: string;
+  disabled?: boolean;
+}
+
+interface WheelColumnProps {
+  label: string;
+  options: WheelOption[];
+  value: number;
+  onChange: (value: number) => void;
+  flex?: number;
+}
+
+// Closest enabled option to index, searching both ways; null when every option is disabled
+const findEnabledIndex = (options: WheelOption[], index: number): number | null => {
+  for (let distance = 0; distance < options.length; distance++) {
+    if (options[index - distance] && !options[index - distance].disabled) return index - distance;
+    if (options[index + distance] && !options[index + distance].disabled) return index + distance;
+  }
+  return null;
+};
+
+// One scroll-snapping column: the row in the middle band is the value; tapping a row or ArrowUp/ArrowDown also pick
+const WheelColumn: React.FC<WheelColumnProps> = ({ label, options, value, onChange, flex = 1 }) => {
+  const listRef = useRef<HTMLDivElement>(null);
+  const settleTimerRef = useRef<ReturnType<typeof setTimeout>>();
+  const selectedIndex = options.findIndex((option) => option.value === value);
+
+  // Keep the value in the band: first render, keyboard picks and other wheels clamping this one
+  useEffect(() => {
+    const list = listRef.current;
+    if (list && selectedIndex >= 0 && Math.round(list.scrollTop / ITEM_HEIGHT) !== selectedIndex) {
+      list.scrollTop = selectedIndex * ITEM_HEIGHT;
+    }
+  }, [selectedIndex]);
+
+  useEffect(() => () => clearTimeout(settleTimerRef.current), []);
+
+  // A disabled row snaps to the closest enabled one; landing back on the value scrolls it into the band again
+  const settle = () => {
+    const list = listRef.current;
+    if (!list) return;
+    const index = findEnabledIndex(options, Math.min(Math.round(list.scrollTop / ITEM_HEIGHT), options.length - 1));
+    if (index === null) return;
+    if (options[index].value !== value) {
+      onChange(options[index].value);
+    } else if (list.scrollTop !== index * ITEM_HEIGHT) {
+      list.scrollTo({ top: index * ITEM_HEIGHT, behavior: 'smooth' });
+    }
+  };
+
+  const handleScroll = () => {
+    clearTimeout(settleTimerRef.current);
+    settleTimerRef.current = setTimeout(settle, SETTLE_DELAY);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const enabled = options.filter((option) => !option.disabled);
+    const position = enabled.findIndex((option) => option.value === value);
+    const targets: Record<string, WheelOption | undefined> = {
+      ArrowUp: enabled[position - 1],
+      ArrowDown: enabled[position + 1],
+      Home: enabled[0],
+      End: enabled[enabled.length - 1],
+    };
+    if (!(e.key in targets)) return;
+    e.preventDefault();
+    const target = targets[e.key];
+    if (target) onChange(target.value);
+  };
+
+  return (
+    <Box flex={flex} minWidth={0} position="relative">
+      <Box
+        aria-hidden
+        position="absolute"
+        left={0}
+        right={0}
+        top={PADDING_ITEMS * ITEM_HEIGHT}
+        height={ITEM_HEIGHT}
+        borderRadius={2}
+        bgcolor="action.selected"
+        sx={{ pointerEvents: 'none' }}
+      />
+      <Box
+        ref={listRef}
+        role="listbox"
+        aria-label={label}
+        tabIndex={0}
+        onScroll={handleScroll}
+        onKeyDown={handleKeyDown}
+        sx={{
+          position: 'relative',
+          height: VISIBLE_ITEMS * ITEM_HEIGHT,
+          overflowY: 'auto',
+          scrollSnapType: 'y mandatory',
+          scrollbarWidth: 'none',
+          '&::-webkit-scrollbar': { display: 'none' },
+          // Rows fade out towards the top and bottom edges
+          maskImage: 'linear-gradient(transparent, #000 35%, #000 65%, transparent)',
+          borderRadius: 2,
+          '&:focus-visible': { outline: (theme) => `2px solid ${theme.palette.primary.main}` },
+        }}
+      >
+        {/* Spacers let the first and last rows reach the band */}
+        <Box aria-hidden height={PADDING_ITEMS * ITEM_HEIGHT} />
+        {options.map((option) => {
+          const isSelected = option.value === value;
+          return (
+            <Box
+              key={option.value}
+              role="option"
+              aria-selected={isSelected}
+              aria-disabled={option.disabled || undefined}
+              onClick={() => !option.disabled && onChange(option.value)}
+              sx={{
+                height: ITEM_HEIGHT,
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                scrollSnapAlign: 'center',
+                fontSize: '1.125rem',
+                fontWeight: isSelected ? 'bold' : 'normal',
+                color: option.disabled ? 'text.disabled' : isSelected ? 'primary.main' : 'text.primary',
+                cursor: option.disabled ? 'default' : 'pointer',
+                whiteSpace: 'nowrap',
+                overflow: 'hidden',
+                textOverflow: 'ellipsis',
+              }}
+            >
+              {option.label}
+            </Box>
+          );
+        })}
+        <Box aria-hidden height={PADDING_ITEMS * ITEM_HEIGHT} />
+      </Box>
+    </Box>
+  );
+};
+
+export interface ThaiDateWheelsProps {
+  calendar: ThaiCalendarState;
+  sx?: SxProps<Theme>;
+}
+
+// Wheel columns for day, Thai month, BE year, hour and minute (second) of a single value, by the calendar's views
+const ThaiDateWheels: React.FC<ThaiDateWheelsProps> = ({ calendar, sx }) => {
+  const locale = useDatePickerLocale();
+  const { labels, eraDisplay } = locale;
+  const {
+    granularity,
+    withTime,
+    withSeconds,
+    minuteStep,
+    constraints,
+    timeConstraints,
+    selectedDates,
+    viewDate,
+    selectedTime,
+    handleValueChange,
+  } = calendar;
+  // The value, or the page the calendar opens on (today when empty)
+  const date = selectedDates[0] ?? viewDate;
+  const yearAD = date.getFullYear();
+  const monthIndex = date.getMonth();
+  const minYear = constraints.minDate?.getFullYear() ?? yearAD - SUPPORTED_YEAR_WINDOW;
+  const maxYear = constraints.maxDate?.getFullYear() ?? yearAD + SUPPORTED_YEAR_WINDOW;
+
+  // Moving one wheel keeps the others; the day is clamped to the length of the new month
+  const change = (year: number, month: number, day: number, time: TimeOfDay = selectedTime) => {
+    const target = new Date(year, month, Math.min(day, getDaysInMonth(year, month)));
+    handleValueChange(setTimeOfDay(target, time));
+  };
+
+  // Changing the hour can push the minute outside minTime - maxTime, so the result is clamped
+  const changeTime = (unit: TimeUnit, n: number) =>
+    change(yearAD, monthIndex, date.getDate(), clampTime({ ...selectedTime, [unit]: n }, timeConstraints));
+
+  const yearOptions = Array.from({ length: maxYear - minYear + 1 }, (_, i) => ({
+    value: minYear + i,
+    label: String(eraDisplay === 'AD' ? minYear + i : minYear + i + BE_OFFSET),
+  }));
+  const monthOptions = (withTime ? locale.monthsShort : locale.months).map((name, i) => ({
+    value: i,
+    label: name,
+    disabled: isMonthOutOfRange(yearAD, i, constraints),
+  }));
+  const dayOptions = Array.from({ length: getDaysInMonth(yearAD, monthIndex) }, (_, i) => ({
+    value: i + 1,
+    label: String(i + 1),
+    disabled: isDateDisabled(new Date(yearAD, monthIndex, i + 1), constraints),
+  }));
+  const timeUnits: TimeUnit[] = withSeconds ? ['hour', 'minute', 'second'] : ['hour', 'minute'];
+
+  return (
+    <Box display="flex" alignItems="center" gap={1} sx={sx}>
+      {granularity === 'day' && (
+        <WheelColumn
+          label={labels.dateUnits.day}
+          options={dayOptions}
+          value={date.getDate()}
+          onChange={(day) => change(yearAD, monthIndex, day)}
+        />
+      )}
+      {granularity !== 'year' && (
+        <WheelColumn
+          label={labels.dateUnits.month}
+          options={monthOptions}
+          value={monthIndex}
+          onChange={(month) => change(yearAD, month, date.getDate())}
+          flex={withTime ? 1.5 : 2.5}
+        />
+      )}
+      <WheelColumn
+        label={labels.dateUnits.year}
+        options={yearOptions}
+        value={yearAD}
+        onChange={(year) => change(year, monthIndex, date.getDate())}
+        flex={1.5}
+      />
+      {withTime && (
+        <Box display="flex" alignItems="center" gap={0.5} flex={timeUnits.length} ml={1}>
+          {timeUnits.map((unit, i) => (
+            <React.Fragment key={unit}>
+              {i > 0 && (
+                <Typography aria-hidden color="text.secondary">
+                  :
+                </Typography>
+              )}
+              <WheelColumn
+                label={labels.timeUnits[unit]}
+                options={getTimeSegmentOptions(unit, selectedTime, minuteStep, timeConstraints).map((n) => ({
+                  value: n,
+                  label: String(n).padStart(2, '0'),
+                }))}
+                value={selectedTime[unit]}
+                onChange={(n) => changeTime(unit, n)}
+              />
+            </React.Fragment>
+          ))}
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default ThaiDateWheels;
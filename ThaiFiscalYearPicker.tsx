@@ -0,0 +1,217 @@
+import React, { useState } from 'react';
+import {
+  TextField,
+  Popover,
+  IconButton,
+  InputAdornment,
+  Box,
+  Typography,
+  Button,
+  Grid,
+  TextFieldProps,
+} from '@mui/material';
+import { EventNote, ChevronLeft, ChevronRight } from '@mui/icons-material';
+
+import {
+  formatADDate,
+  parseADDate,
+  formatThaiDateRange,
+  getFiscalYearBE,
+  getFiscalYearRange,
+  getFiscalQuarter,
+  getFiscalQuarterRange,
+} from './dateUtils';
+import { ThaiDateRange } from './ThaiDateRangePicker';
+import { useDatePickerClock } from './clock';
+
+interface ThaiFiscalYearPickerProps extends Omit<TextFieldProps, 'value' | 'onChange'> {
+  value: ThaiDateRange; // AD start/end of the chosen fiscal year or quarter
+  onChange: (value: ThaiDateRange) => void;
+  granularity?: 'year' | 'quarter';
+  // "Now" for the fiscal year the picker opens on (default: DatePickerClockProvider or the system clock)
+  referenceDate?: Date;
+}
+
+const QUARTER_MONTHS = ['ต.ค. – ธ.ค.', 'ม.ค. – มี.ค.', 'เม.ย. – มิ.ย.', 'ก.ค. – ก.ย.'];
+
+const toRange = ({ start, end }: { start: Date; end: Date }): ThaiDateRange => ({
+  start: formatADDate(start),
+  end: formatADDate(end),
+});
+
+const ThaiFiscalYearPicker: React.FC<ThaiFiscalYearPickerProps> = ({
+  label,
+  value,
+  onChange,
+  placeholder,
+  disabled = false,
+  granularity = 'year',
+  referenceDate,
+  InputProps,
+  ...textFieldProps
+}) => {
+  const clock = useDatePickerClock(referenceDate);
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  // Fiscal year (BE) at the centre of the 12-year page
+  const [viewYearBE, setViewYearBE] = useState(() => getFiscalYearBE(clock()));
+  const [viewMode, setViewMode] = useState<'year' | 'quarter'>('year');
+
+  const isCalendarOpen = Boolean(anchorEl);
+  const startDate = parseADDate(value.start);
+  const selectedYearBE = startDate ? getFiscalYearBE(startDate) : null;
+  const selectedQuarter = startDate && granularity === 'quarter' ? getFiscalQuarter(startDate) : null;
+
+  const displayValue = !startDate
+    ? ''
+    : selectedQuarter
+      ? `ไตรมาส ${selectedQuarter}/${selectedYearBE}`
+      : `ปีงบประมาณ ${selectedYearBE}`;
+
+  const handleOpen = (event: React.MouseEvent<HTMLElement>) => {
+    if (disabled) return;
+    setAnchorEl(event.currentTarget);
+    setViewYearBE(selectedYearBE || getFiscalYearBE(clock()));
+    setViewMode('year');
+  };
+
+  const handleClose = () => {
+    setAnchorEl(null);
+  };
+
+  const handleYearSelect = (fiscalYearBE: number) => {
+    if (granularity === 'quarter') {
+      setViewYearBE(fiscalYearBE);
+      setViewMode('quarter');
+      return;
+    }
+    onChange(toRange(getFiscalYearRange(fiscalYearBE)));
+    handleClose();
+  };
+
+  const handleQuarterSelect = (quarter: number) => {
+    onChange(toRange(getFiscalQuarterRange(viewYearBE, quarter)));
+    handleClose();
+  };
+
+  const pageStep = viewMode === 'year' ? 12 : 1;
+
+  return (
+    <Box sx={{ width: textFieldProps.fullWidth ? '100%' : 'auto' }}>
+      <TextField
+        {...textFieldProps}
+        label={label}
+        value={displayValue}
+        placeholder={placeholder || (granularity === 'quarter' ? 'ไตรมาส Q/YYYY' : 'ปีงบประมาณ YYYY')}
+        disabled={disabled}
+        onClick={handleOpen}
+        InputProps={{
+          ...InputProps,
+          readOnly: true,
+          endAdornment: (
+            <InputAdornment position="end">
+              <IconButton
+                size="small"
+                edge="start"
+                disabled={disabled}
+                color={isCalendarOpen ? 'primary' : 'default'}
+                sx={{ p: 0.5 }}
+                aria-label="เลือกปีงบประมาณ"
+              >
+                <EventNote />
+              </IconButton>
+              {InputProps?.endAdornment}
+            </InputAdornment>
+          ),
+        }}
+        helperText={textFieldProps.helperText ?? (startDate ? formatThaiDateRange(startDate, parseADDate(value.end)) : undefined)}
+      />
+
+      <Popover
+        open={isCalendarOpen}
+        anchorEl={anchorEl}
+        onClose={handleClose}
+        anchorOrigin={{
+          vertical: 'bottom',
+          horizontal: 'left',
+        }}
+        transformOrigin={{
+          vertical: 'top',
+          horizontal: 'left',
+        }}
+        PaperProps={{
+          sx: {
+            mt: 1,
+            p: 2,
+            width: 320,
+            borderRadius: 2,
+          },
+        }}
+      >
+        {/* Header */}
+        <Box display="flex" justifyContent="space-between" alignItems="center" mb={2}>
+          <IconButton onClick={() => setViewYearBE(viewYearBE - pageStep)} size="small">
+            <ChevronLeft />
+          </IconButton>
+          <Typography
+            variant="subtitle1"
+            fontWeight="bold"
+            sx={{ cursor: viewMode === 'quarter' ? 'pointer' : 'default' }}
+            onClick={() => setViewMode('year')}
+          >
+            {viewMode === 'year' ? 'ปีงบประมาณ' : `ปีงบประมาณ ${viewYearBE}`}
+          </Typography>
+          <IconButton onClick={() => setViewYearBE(viewYearBE + pageStep)} size="small">
+            <ChevronRight />
+          </IconButton>
+        </Box>
+
+        {viewMode === 'year' && (
+          <Grid container spacing={1} columns={4}>
+            {Array.from({ length: 12 }, (_, i) => {
+              const year = viewYearBE - 6 + i;
+              return (
+                <Grid xs={1} key={year}>
+                  <Button
+                    fullWidth
+                    variant={year === selectedYearBE ? 'contained' : 'text'}
+                    disableElevation
+                    onClick={() => handleYearSelect(year)}
+                  >
+                    {year}
+                  </Button>
+                </Grid>
+              );
+            })}
+          </Grid>
+        )}
+
+        {viewMode === 'quarter' && (
+          <Grid container spacing={1} columns={2}>
+            {QUARTER_MONTHS.map((months, i) => {
+              const quarter = i + 1;
+              const isSelected = viewYearBE === selectedYearBE && quarter === selectedQuarter;
+              return (
+                <Grid xs={1} key={quarter}>
+                  <Button
+                    fullWidth
+                    variant={isSelected ? 'contained' : 'outlined'}
+                    disableElevation
+                    onClick={() => handleQuarterSelect(quarter)}
+                    sx={{ flexDirection: 'column', py: 1 }}
+                  >
+                    <Typography variant="body2" fontWeight="bold">
+                      ไตรมาส {quarter}/{viewYearBE}
+                    </Typography>
+                    <Typography variant="caption">{months}</Typography>
+                  </Button>
+                </Grid>
+              );
+            })}
+          </Grid>
+        )}
+      </Popover>
+    </Box>
+  );
+};
+
+export default ThaiFiscalYearPicker;
@@ -0,0 +1,83 @@
+import React from 'react';
+import { Box, Button, Dialog, DialogActions, DialogContent, Typography } from '@mui/material';
+import { Check } from '@mui/icons-material';
+
+import { setTimeOfDay, formatThaiTime } from './dateUtils';
+import { getValueConstraintError } from './pickerUtils';
+import { useDatePickerLocale, getLocaleYear, formatLocaleYear, formatLocaleDateLabel } from './locale';
+import { useThaiCalendar, UseThaiCalendarOptions } from './useThaiCalendar';
+import ThaiDateWheels from './ThaiDateWheels';
+
+export type ThaiMobileDialogProps = UseThaiCalendarOptions & {
+  open: boolean;
+};
+
+// Dialog mounts its content per open, so the wheels start from the current value (or today) every time
+const ThaiMobileDialogContent: React.FC<UseThaiCalendarOptions> = (options) => {
+  const calendar = useThaiCalendar(options);
+  const locale = useDatePickerLocale();
+  const { labels } = locale;
+  const { granularity, withTime, withSeconds, constraints, historicalBE, selectedDates, viewDate, selectedTime } =
+    calendar;
+  const { onSelectionComplete, onCancel } = options;
+  // Same date as the wheels: the value, or the page the calendar would open on
+  const date = selectedDates[0] ?? viewDate;
+  const isDisabled = getValueConstraintError(date, granularity, constraints) !== null;
+
+  const title = granularity === 'day' ? labels.chooseDate : granularity === 'month' ? labels.chooseMonth : labels.chooseYear;
+  const dateText =
+    granularity === 'day'
+      ? formatLocaleDateLabel(date, locale, historicalBE)
+      : granularity === 'month'
+        ? `${locale.months[date.getMonth()]} ${getLocaleYear(date, locale, historicalBE)}`
+        : formatLocaleYear(date, locale, historicalBE);
+
+  const handleAccept = () => {
+    // An untouched empty (or partial) value takes the date on the wheels
+    if (selectedDates.length === 0) calendar.handleValueChange(setTimeOfDay(date, selectedTime));
+    onSelectionComplete?.();
+  };
+
+  return (
+    <>
+      <Box bgcolor="primary.main" color="primary.contrastText" px={3} pt={3} pb={2}>
+        <Typography variant="overline">{title}</Typography>
+        <Typography variant="h4" component="p" aria-live="polite">
+          {dateText}
+        </Typography>
+        {withTime && (
+          <Typography variant="h5" component="p">
+            {formatThaiTime(selectedTime, withSeconds)}
+          </Typography>
+        )}
+      </Box>
+      <DialogContent sx={{ display: 'flex', alignItems: 'center' }}>
+        <ThaiDateWheels calendar={calendar} sx={{ width: '100%', maxWidth: 480, mx: 'auto' }} />
+      </DialogContent>
+      <DialogActions sx={{ px: 3, pb: 3 }}>
+        <Button size="large" color="inherit" onClick={onCancel}>
+          {labels.cancel}
+        </Button>
+        <Button size="large" variant="contained" onClick={handleAccept} disabled={isDisabled} startIcon={<Check />}>
+          {labels.ok}
+        </Button>
+      </DialogActions>
+    </>
+  );
+};
+
+/**
+ * Full-screen picker for phones: a large header with the picked BE date and wheels for day, month, year and time.
+ * Takes the same options as ThaiCalendar; ตกลง calls onSelectionComplete, ยกเลิก and Escape onCancel.
+ */
+const ThaiMobileDialog: React.FC<ThaiMobileDialogProps> = ({ open, ...options }) => {
+  const { labels } = useDatePickerLocale();
+
+  return (
+    <Dialog fullScreen open={open} onClose={options.onCancel} PaperProps={{ 'aria-label': labels.chooseDate }}>
+      <ThaiMobileDialogContent {...options} />
+    </Dialog>
+  );
+};
+
+export default ThaiMobileDialog;
@@ -0,0 +1,223 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { TextField, Popover, IconButton, InputAdornment, Box, Button, TextFieldProps } from '@mui/material';
+import { AccessTime, Check } from '@mui/icons-material';
+
+import {
+  DEFAULT_TIME_ZONE,
+  nowInTimeZone,
+  TimeOfDay,
+  formatTime,
+  parseTime,
+  formatThaiTime,
+  getTimeConstraintError,
+  DateValidationError,
+} from './dateUtils';
+import { TimeOptionProps, applyMask, resolveTimeConstraints, getInitialTime, normalizeMinuteStep } from './pickerUtils';
+import ThaiTimeSection from './ThaiTimeSection';
+import { useDatePickerLocale } from './locale';
+import { useDatePickerClock } from './clock';
+
+interface ThaiTimePickerProps extends Omit<TextFieldProps, 'value' | 'onChange'>, TimeOptionProps {
+  value: string; // "14:30" ("14:30:00" with withSeconds)
+  onChange: (value: string) => void;
+  // Show "14.30 น." while not focused
+  thaiTimeSuffix?: boolean;
+  // Zone used for the starting time when value is empty
+  timeZone?: string;
+  // "Now" for the starting time (default: DatePickerClockProvider or the system clock)
+  referenceDate?: Date;
+}
+
+const ThaiTimePicker: React.FC<ThaiTimePickerProps> = ({
+  label,
+  value,
+  onChange,
+  placeholder,
+  disabled = false,
+  withSeconds = false,
+  minuteStep: minuteStepProp,
+  minTime,
+  maxTime,
+  thaiTimeSuffix = false,
+  timeZone = DEFAULT_TIME_ZONE,
+  referenceDate,
+  onFocus,
+  onBlur,
+  InputProps,
+  ...textFieldProps
+}) => {
+  const { labels } = useDatePickerLocale();
+  const clock = useDatePickerClock(referenceDate);
+  const minuteStep = normalizeMinuteStep(minuteStepProp);
+  const mask = withSeconds ? 'HH:mm:ss' : 'HH:mm';
+  const timeConstraints = useMemo(() => resolveTimeConstraints({ minTime, maxTime, minuteStep }), [minTime, maxTime, minuteStep]);
+
+  const [inputValue, setInputValue] = useState('');
+  const [isInputFocused, setIsInputFocused] = useState(false);
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  // Time shown in the popover; follows value, or starts from now when value is empty
+  const [popoverTime, setPopoverTime] = useState<TimeOfDay>({ hour: 0, minute: 0, second: 0 });
+  const [validationError, setValidationError] = useState<DateValidationError | null>(null);
+  // Last value sent to the parent, so echoing back our own '' for a rejected input does not wipe the text
+  const emittedValueRef = useRef<string | null>(null);
+
+  const isPopoverOpen = Boolean(anchorEl);
+  const propTime = parseTime(value);
+
+  const emitChange = (newValue: string) => {
+    emittedValueRef.current = newValue;
+    onChange(newValue);
+  };
+
+  // Sync the external value into the masked text, unless the text already means the same time
+  useEffect(() => {
+    // A value other than the one we last sent comes from the parent, so a later '' from it clears the text
+    if (value !== emittedValueRef.current) emittedValueRef.current = null;
+    if (formatTime(propTime, withSeconds) === formatTime(parseTime(inputValue), withSeconds)) return;
+    if (propTime) {
+      setInputValue(formatTime(propTime, withSeconds));
+      setValidationError(null);
+    } else if (!value && emittedValueRef.current !== '') {
+      setInputValue('');
+      setValidationError(null);
+    }
+  }, [value, withSeconds]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const commitTime = (time: TimeOfDay) => {
+    emitChange(formatTime(time, withSeconds));
+    setInputValue(formatTime(time, withSeconds));
+    setValidationError(null);
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const formatted = applyMask(e.target.value.replace(/[^0-9]/g, ''), mask);
+    setInputValue(formatted);
+
+    if (formatted.length < mask.length) {
+      setValidationError(formatted ? 'incomplete' : null);
+      if (!formatted) emitChange(''); // Cleared
+      return;
+    }
+    const time = parseTime(formatted);
+    const error = time ? getTimeConstraintError(time, timeConstraints) : 'invalidDate';
+    setValidationError(error);
+    emitChange(time && !error ? formatTime(time, withSeconds) : '');
+  };
+
+  // Unfinished text is dropped on blur; a complete but rejected time stays visible with its error
+  const handleInputBlur = () => {
+    setIsInputFocused(false);
+    if (validationError === 'incomplete') {
+      setInputValue(formatTime(propTime, withSeconds));
+      setValidationError(null);
+    }
+  };
+
+  const handleOpen = (event: React.MouseEvent<HTMLElement>) => {
+    if (disabled) return;
+    setAnchorEl(event.currentTarget.parentElement);
+    setPopoverTime(propTime ?? getInitialTime(nowInTimeZone(timeZone, clock), minuteStep, timeConstraints));
+  };
+
+  const handlePopoverChange = (time: TimeOfDay) => {
+    setPopoverTime(time);
+    commitTime(time);
+  };
+
+  const errorMessages: Record<DateValidationError, string> = {
+    incomplete: '',
+    invalidDate: labels.errors.invalidTime,
+    outOfRange: '',
+    minDate: '',
+    maxDate: '',
+    shouldDisableDate: '',
+    minTime: labels.errors.minTime(formatThaiTime(timeConstraints.minTime ?? null)),
+    maxTime: labels.errors.maxTime(formatThaiTime(timeConstraints.maxTime ?? null)),
+    minuteStep: labels.errors.minuteStep(timeConstraints.minuteStep ?? 1),
+  };
+  const errorText = validationError ? errorMessages[validationError] : '';
+
+  const displayValue = thaiTimeSuffix && propTime && !isInputFocused ? formatThaiTime(propTime, withSeconds) : inputValue;
+
+  return (
+    <Box sx={{ width: textFieldProps.fullWidth ? '100%' : 'auto' }}>
+      <TextField
+        {...textFieldProps}
+        label={label}
+        value={displayValue}
+        error={textFieldProps.error ?? Boolean(errorText)}
+        helperText={textFieldProps.helperText ?? (errorText || undefined)}
+        placeholder={placeholder || mask}
+        disabled={disabled}
+        onChange={handleInputChange}
+        onFocus={(e) => {
+          setIsInputFocused(true);
+          onFocus?.(e);
+        }}
+        onBlur={(e) => {
+          handleInputBlur();
+          onBlur?.(e);
+        }}
+        InputProps={{
+          ...InputProps,
+          endAdornment: (
+            <InputAdornment position="end">
+              <IconButton
+                size="small"
+                onClick={handleOpen}
+                edge="start"
+                disabled={disabled}
+                color={isPopoverOpen ? 'primary' : 'default'}
+                sx={{ p: 0.5 }}
+                aria-label={labels.openTimePicker}
+                aria-haspopup="dialog"
+              >
+                <AccessTime />
+              </IconButton>
+              {InputProps?.endAdornment}
+            </InputAdornment>
+          ),
+        }}
+      />
+
+      <Popover
+        open={isPopoverOpen}
+        anchorEl={anchorEl}
+        onClose={() => setAnchorEl(null)}
+        anchorOrigin={{
+          vertical: 'bottom',
+          horizontal: 'left',
+        }}
+        transformOrigin={{
+          vertical: 'top',
+          horizontal: 'left',
+        }}
+        TransitionProps={{
+          onEntered: (node) => node.querySelector<HTMLElement>('input')?.focus(),
+        }}
+        PaperProps={{
+          sx: {
+            mt: 1,
+            p: 2,
+            borderRadius: 2,
+          },
+        }}
+      >
+        <ThaiTimeSection
+          value={popoverTime}
+          onChange={handlePopoverChange}
+          withSeconds={withSeconds}
+          minuteStep={minuteStep}
+          {...timeConstraints}
+        />
+        <Box mt={2} pt={1} borderTop="1px solid #eee" display="flex" justifyContent="flex-end">
+          <Button size="small" variant="contained" onClick={() => setAnchorEl(null)} startIcon={<Check />}>
+            {labels.ok}
+          </Button>
+        </Box>
+      </Popover>
+    </Box>
+  );
+};
+
+export default ThaiTimePicker;
@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { Box, Typography, TextField } from '@mui/material';
+import { AccessTime } from '@mui/icons-material';
+
+import { TimeOfDay, TimeConstraints, clampTime, formatThaiTime } from './dateUtils';
+import { TimeUnit, getTimeSegmentOptions } from './pickerUtils';
+import { useDatePickerLocale } from './locale';
+
+export interface ThaiTimeSectionProps extends TimeConstraints {
+  value: TimeOfDay;
+  onChange: (value: TimeOfDay) => void;
+  withSeconds?: boolean;
+  minuteStep?: number;
+}
+
+interface TimeSegmentProps {
+  label: string;
+  value: number;
+  options: number[];
+  onChange: (value: number) => void;
+}
+
+// Two-digit spin button: type the number, or step through the allowed values with ArrowUp/ArrowDown
+const TimeSegment: React.FC<TimeSegmentProps> = ({ label, value, options, onChange }) => {
+  // Digits typed so far; null while showing the committed value
+  const [draft, setDraft] = useState<string | null>(null);
+
+  // Typed numbers snap to the closest allowed value (e.g. 07 with a 15-minute step -> 00)
+  const commit = (text: string | null) => {
+    setDraft(null);
+    if (!text || options.length === 0) return;
+    const typed = Number(text);
+    onChange(options.reduce((best, n) => (Math.abs(n - typed) < Math.abs(best - typed) ? n : best), options[0]));
+  };
+
+  const stepBy = (direction: 1 | -1) => {
+    if (options.length === 0) return;
+    const index = options.indexOf(value);
+    if (index === -1) {
+      const next = direction === 1 ? options.find((n) => n > value) : [...options].reverse().find((n) => n < value);
+      onChange(next ?? options[direction === 1 ? 0 : options.length - 1]);
+    } else {
+      onChange(options[(index + direction + options.length) % options.length]);
+    }
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const digits = e.target.value.replace(/[^0-9]/g, '');
+    // A new digit after a committed value starts a fresh entry
+    const next = draft === null ? digits.slice(-1) : digits.slice(0, 2);
+    if (next.length === 2) {
+      commit(next);
+    } else {
+      setDraft(next);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+      e.preventDefault();
+      setDraft(null);
+      stepBy(e.key === 'ArrowUp' ? 1 : -1);
+    } else if (e.key === 'Enter' && draft !== null) {
+      commit(draft);
+    }
+  };
+
+  return (
+    <TextField
+      size="small"
+      value={draft ?? String(value).padStart(2, '0')}
+      onFocus={(e) => e.target.select()}
+      onChange={handleChange}
+      onBlur={() => draft !== null && commit(draft)}
+      onKeyDown={handleKeyDown}
+      sx={{ width: 64 }}
+      inputProps={{
+        inputMode: 'numeric',
+        role: 'spinbutton',
+        'aria-label': label,
+        'aria-valuenow': value,
+        'aria-valuemin': options[0],
+        'aria-valuemax': options[options.length - 1],
+        style: { textAlign: 'center' },
+      }}
+    />
+  );
+};
+
+// Time selection shared by ThaiCalendar (withTime) and ThaiTimePicker
+const ThaiTimeSection: React.FC<ThaiTimeSectionProps> = ({
+  value,
+  onChange,
+  withSeconds = false,
+  minuteStep = 1,
+  minTime,
+  maxTime,
+}) => {
+  const { labels } = useDatePickerLocale();
+  const constraints = { minTime, maxTime };
+  const units: TimeUnit[] = withSeconds ? ['hour', 'minute', 'second'] : ['hour', 'minute'];
+
+  // Changing the hour can push the minute outside the range (16:45 with maxTime 16:30), so the result is clamped
+  const handleSegmentChange = (unit: TimeUnit, n: number) => {
+    onChange(clampTime({ ...value, [unit]: n }, constraints));
+  };
+
+  return (
+    <Box>
+      <Box display="flex" alignItems="center" justifyContent="space-between" mb={1}>
+        <Box display="flex" alignItems="center" gap={1}>
+          <AccessTime fontSize="small" color="action" />
+          <Typography variant="body2">{labels.time}</Typography>
+        </Box>
+        <Typography variant="caption" color="text.secondary">
+          {formatThaiTime(value, withSeconds)}
+        </Typography>
+      </Box>
+      <Box display="flex" justifyContent="center" alignItems="center" gap={1}>
+        {units.map((unit, i) => (
+          <React.Fragment key={unit}>
+            {i > 0 && <Typography>:</Typography>}
+            <TimeSegment
+              label={labels.timeUnits[unit]}
+              value={value[unit]}
+              options={getTimeSegmentOptions(unit, value, minuteStep, constraints)}
+              onChange={(n) => handleSegmentChange(unit, n)}
+            />
+          </React.Fragment>
+        ))}
+      </Box>
+    </Box>
+  );
+};
+
+export default ThaiTimeSection;
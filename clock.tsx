@@ -0,0 +1,33 @@
+import React, { createContext, useContext, useMemo } from 'react';
+
+import { Clock, systemClock, fixedClock } from './dateUtils';
+
+const DatePickerClockContext = createContext<Clock>(systemClock);
+
+/**
+ * Clock for "today", the default calendar page and the default year window:
+ * the referenceDate prop when given, else the nearest DatePickerClockProvider, else the system clock
+ */
+export const useDatePickerClock = (referenceDate?: Date): Clock => {
+  const contextClock = useContext(DatePickerClockContext);
+  const referenceTime = referenceDate?.getTime();
+  return useMemo(
+    () => (referenceTime === undefined ? contextClock : fixedClock(new Date(referenceTime))),
+    [contextClock, referenceTime]
+  );
+};
+
+interface DatePickerClockProviderProps {
+  // A fixed instant (server rendering, snapshot tests) or a clock function
+  now: Date | Clock;
+  children?: React.ReactNode;
+}
+
+// Makes every picker below read the same "now", so server and client render the same today
+export const DatePickerClockProvider: React.FC<DatePickerClockProviderProps> = ({ now, children }) => {
+  // A fixed Date is compared by time, so a new Date object for the same instant keeps the clock
+  const nowClock = now instanceof Date ? null : now;
+  const nowTime = now instanceof Date ? now.getTime() : 0;
+  const value = useMemo(() => nowClock ?? fixedClock(new Date(nowTime)), [nowClock, nowTime]);
+  return <DatePickerClockContext.Provider value={value}>{children}</DatePickerClockContext.Provider>;
+};
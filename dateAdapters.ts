@@ -0,0 +1,108 @@
+import { DEFAULT_TIME_ZONE, formatISODateTime, parseISODateTime, formatADDateTimeWithSeconds } from './dateUtils';
+
+/**
+ * Converts between an app's date type and the wall-clock Date the pickers work on
+ * (the day and time the user sees; BE display, parsing and validation stay in dateUtils).
+ */
+export interface DateAdapter<TDate> {
+  // Wall-clock Date of a value, or null when it is invalid
+  toDate: (value: TDate) => Date | null;
+  // Value for a wall-clock Date picked or typed by the user
+  fromDate: (date: Date) => TDate;
+}
+
+// Value type of an adapter, e.g. AdapterDate<typeof luxonAdapter> = DateTime
+export type AdapterDate<TAdapter> = TAdapter extends DateAdapter<infer TDate> ? TDate : never;
+
+/**
+ * Native Date, read in its local fields (new Date(2026, 1, 18) is 18/02/2569)
+ */
+export const nativeDateAdapter: DateAdapter<Date> = {
+  toDate: (value) => (isNaN(value.getTime()) ? null : value),
+  fromDate: (date) => date,
+};
+
+/**
+ * date-fns works on native Date, so its adapter is the native one
+ */
+export const dateFnsAdapter: DateAdapter<Date> = nativeDateAdapter;
+
+/**
+ * ISO 8601 strings with an offset ("2026-02-18T14:30:00+07:00"), like valueFormat="iso"; read and written in timeZone
+ */
+export const createISOStringAdapter = (timeZone: string = DEFAULT_TIME_ZONE): DateAdapter<string> => ({
+  toDate: (value) => parseISODateTime(value, timeZone),
+  fromDate: (date) => formatISODateTime(date, timeZone),
+});
+
+// The parts of dayjs and Luxon the adapters use, so neither library is a dependency of the pickers
+interface DayjsLike {
+  isValid: () => boolean;
+  year: () => number;
+  month: () => number;
+  date: () => number;
+  hour: () => number;
+  minute: () => number;
+  second: () => number;
+}
+
+interface LuxonDateTimeLike {
+  isValid: boolean;
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+interface DayjsFactory<TDayjs> {
+  (date: Date): TDayjs;
+  // dayjs.tz from the timezone plugin: reads "YYYY-MM-DD HH:mm:ss" as a time in zone
+  tz?: (text: string, zone: string) => TDayjs;
+}
+
+interface LuxonDateTimeFactory<TDateTime> {
+  fromObject: (
+    fields: { year: number; month: number; day: number; hour: number; minute: number; second: number },
+    options?: { zone?: string }
+  ) => TDateTime;
+}
+
+/**
+ * dayjs values; pass the dayjs function. Fields are read as shown, so zoned dayjs keep their zone.
+ * With zone (needs the timezone plugin), new values are created from their fields in zone, like the Luxon adapter.
+ */
+export const createDayjsAdapter = <TDayjs extends DayjsLike>(
+  dayjs: DayjsFactory<TDayjs>,
+  { zone }: { zone?: string } = {}
+): DateAdapter<TDayjs> => ({
+  toDate: (value) =>
+    value.isValid()
+      ? new Date(value.year(), value.month(), value.date(), value.hour(), value.minute(), value.second())
+      : null,
+  fromDate: (date) => (zone && dayjs.tz ? dayjs.tz(formatADDateTimeWithSeconds(date), zone) : dayjs(date)),
+});
+
+/**
+ * Luxon DateTime values; pass the DateTime class. New values are created in zone (default: Luxon's default zone).
+ */
+export const createLuxonAdapter = <TDateTime extends LuxonDateTimeLike>(
+  DateTime: LuxonDateTimeFactory<TDateTime>,
+  { zone }: { zone?: string } = {}
+): DateAdapter<TDateTime> => ({
+  toDate: (value) =>
+    value.isValid ? new Date(value.year, value.month - 1, value.day, value.hour, value.minute, value.second) : null,
+  fromDate: (date) =>
+    DateTime.fromObject(
+      {
+        year: date.getFullYear(),
+        month: date.getMonth() + 1,
+        day: date.getDate(),
+        hour: date.getHours(),
+        minute: date.getMinutes(),
+        second: date.getSeconds(),
+      },
+      zone ? { zone } : undefined
+    ),
+});
@@ -11,25 +11,100 @@ export const THAI_MONTHS_SHORT = [
   "ก.ค.", "ส.ค.", "ก.ย.", "ต.ค.", "พ.ย.", "ธ.ค."
 ];
 
+export const THAI_DAYS = [
+  "อาทิตย์", "จันทร์", "อังคาร", "พุธ", "พฤหัสบดี", "ศุกร์", "เสาร์"
+];
+
+export const THAI_DAYS_SHORT = ["อา", "จ", "อ", "พ", "พฤ", "ศ", "ส"];
+
+// Until 1 January 2484 BE (1941) the Thai year began on 1 April, so January-March were still the previous BE year
+export const HISTORICAL_BE_OFFSET = 542;
+const HISTORICAL_CALENDAR_CHANGE_YEAR_AD = 1941;
+
+// Default year range when no minYear/maxYear is given: Current Year +/- 100
+export const SUPPORTED_YEAR_WINDOW = 100;
+
+// Source of the current time; pass a fixed one for server rendering and tests
+export type Clock = () => Date;
+
+export const systemClock: Clock = () => new Date();
+
+/**
+ * Clock that always returns the same instant
+ */
+export const fixedClock = (date: Date): Clock => () => new Date(date.getTime());
+
+// How the BE formatters and parsers treat years
+export interface ThaiYearOptions {
+  historical?: boolean; // January-March before 1941 use HISTORICAL_BE_OFFSET (1 Feb 1940 -> 01/02/2482)
+  era?: "BE" | "AD"; // Year written in DD/MM/YYYY; "AD" keeps the layout with a Gregorian year
+  minYear?: number; // Accepted AD years (default: current year +/- SUPPORTED_YEAR_WINDOW)
+  maxYear?: number;
+  clock?: Clock; // "Now" for the default year window (default: systemClock)
+}
+
+/**
+ * AD year range accepted by the Thai parsers: minYear/maxYear, or the window around the current year
+ */
+export const getSupportedYearRange = (
+  { minYear, maxYear, clock = systemClock }: ThaiYearOptions = {},
+  now: Date = clock()
+): { minYear: number; maxYear: number } => ({
+  minYear: minYear ?? now.getFullYear() - SUPPORTED_YEAR_WINDOW,
+  maxYear: maxYear ?? now.getFullYear() + SUPPORTED_YEAR_WINDOW,
+});
+
+/**
+ * Checks if an AD year is inside the range accepted by the Thai parsers
+ */
+export const isYearInSupportedRange = (yearAD: number, options: ThaiYearOptions = {}): boolean => {
+  const { minYear, maxYear } = getSupportedYearRange(options);
+  return yearAD <= maxYear && yearAD >= minYear;
+};
+
+/**
+ * BE year of a date; with historical, January-March before 1941 use the old 1 April new year
+ */
+export const toBuddhistYear = (date: Date, historical: boolean = false): number => {
+  const year = date.getFullYear();
+  const isOldStyle = historical && year < HISTORICAL_CALENDAR_CHANGE_YEAR_AD && date.getMonth() < 3;
+  return year + (isOldStyle ? HISTORICAL_BE_OFFSET : BE_OFFSET);
+};
+
+// Year as written in the text: BE (optionally historical) or AD
+const toDisplayYear = (date: Date, { historical = false, era = "BE" }: ThaiYearOptions): number => {
+  return era === "AD" ? date.getFullYear() : toBuddhistYear(date, historical);
+};
+
+/**
+ * AD year of a year as written in the text (inverse of the BE/AD display year).
+ * The parsers re-check the result, so 01/02/2483 (never existed) is rejected.
+ */
+export const fromDisplayYear = (year: number, monthIndex: number, { historical = false, era = "BE" }: ThaiYearOptions): number => {
+  if (era === "AD") return year;
+  const isOldStyle = historical && monthIndex < 3 && year - HISTORICAL_BE_OFFSET < HISTORICAL_CALENDAR_CHANGE_YEAR_AD;
+  return year - (isOldStyle ? HISTORICAL_BE_OFFSET : BE_OFFSET);
+};
+
 /**
  * Converts a Gregorian Date object to a Thai Buddhist Era year string (DD/MM/YYYY)
  */
-export const formatThaiDate = (date: Date | null): string => {
+export const formatThaiDate = (date: Date | null, options: ThaiYearOptions = {}): string => {
   if (!date || isNaN(date.getTime())) return "";
   const day = String(date.getDate()).padStart(2, '0');
   const month = String(date.getMonth() + 1).padStart(2, '0');
-  const yearBE = date.getFullYear() + BE_OFFSET;
+  const yearBE = toDisplayYear(date, options);
   return `${day}/${month}/${yearBE}`;
 };
 
 /**
  * Converts a Gregorian Date object to a Thai Buddhist Era year string with Time (DD/MM/YYYY HH:mm)
  */
-export const formatThaiDateTime = (date: Date | null): string => {
+export const formatThaiDateTime = (date: Date | null, options: ThaiYearOptions = {}): string => {
   if (!date || isNaN(date.getTime())) return "";
   const day = String(date.getDate()).padStart(2, '0');
   const month = String(date.getMonth() + 1).padStart(2, '0');
-  const yearBE = date.getFullYear() + BE_OFFSET;
+  const yearBE = toDisplayYear(date, options);
   const hour = String(date.getHours()).padStart(2, '0');
   const minute = String(date.getMinutes()).padStart(2, '0');
   return `${day}/${month}/${yearBE} ${hour}:${minute}`;
@@ -61,9 +136,9 @@ export const formatADDateTime = (date: Date | null): string => {
 
 /**
  * Parses a Thai Date string (DD/MM/YYYY) back to a Gregorian Date object.
- * Returns null if invalid or year is out of range (+/- 100 years from now).
+ * Returns null if invalid or year is out of range (minYear/maxYear, default +/- 100 years from now).
  */
-export const parseThaiDate = (value: string): Date | null => {
+export const parseThaiDate = (value: string, options: ThaiYearOptions = {}): Date | null => {
   if (value.length !== 10) return null;
   
   const parts = value.split('/');
@@ -79,11 +154,10 @@ export const parseThaiDate = (value: string): Date | null => {
   if (month < 1 || month > 12) return null;
   if (day < 1 || day > 31) return null;
 
-  const yearAD = yearBE - BE_OFFSET;
+  const yearAD = fromDisplayYear(yearBE, month - 1, options);
   
-  // Year Range Validation: Current Year +/- 100
-  const currentYear = new Date().getFullYear();
-  if (yearAD > currentYear + 100 || yearAD < currentYear - 100) {
+  // Year Range Validation: minYear/maxYear
+  if (!isYearInSupportedRange(yearAD, options)) {
       return null;
   }
   
@@ -93,7 +167,8 @@ export const parseThaiDate = (value: string): Date | null => {
   if (
     date.getFullYear() !== yearAD ||
     date.getMonth() !== month - 1 ||
-    date.getDate() !== day
+    date.getDate() !== day ||
+    toDisplayYear(date, options) !== yearBE
   ) {
     return null;
   }
@@ -104,13 +179,13 @@ export const parseThaiDate = (value: string): Date | null => {
 /**
  * Parses a Thai Date Time string (DD/MM/YYYY HH:mm) back to a Gregorian Date object.
  */
-export const parseThaiDateTime = (value: string): Date | null => {
+export const parseThaiDateTime = (value: string, options: ThaiYearOptions = {}): Date | null => {
   if (value.length !== 16) return null;
   
   const [dateStr, timeStr] = value.split(' ');
   if (!dateStr || !timeStr) return null;
 
-  const date = parseThaiDate(dateStr);
+  const date = parseThaiDate(dateStr, options);
   if (!date) return null;
 
   const [hourStr, minuteStr] = timeStr.split(':');
@@ -175,6 +250,345 @@ export const parseADDateTime = (value: string): Date | null => {
     return date;
 }
 
+// Seconds only extend the minute formats, so they reuse the HH:mm parsers
+const parseSecondsSuffix = (value: string, date: Date | null): Date | null => {
+  const secondStr = value.slice(17);
+  if (!date || value[16] !== ':' || !/^\d{2}$/.test(secondStr)) return null;
+  const second = Number(secondStr);
+  if (second > 59) return null;
+  date.setSeconds(second);
+  return date;
+};
+
+/**
+ * Converts a Gregorian Date object to a Thai BE string with seconds (DD/MM/YYYY HH:mm:ss)
+ */
+export const formatThaiDateTimeWithSeconds = (date: Date | null, options: ThaiYearOptions = {}): string => {
+  if (!date || isNaN(date.getTime())) return "";
+  return `${formatThaiDateTime(date, options)}:${String(date.getSeconds()).padStart(2, '0')}`;
+};
+
+/**
+ * Parses a Thai BE string with seconds (DD/MM/YYYY HH:mm:ss)
+ */
+export const parseThaiDateTimeWithSeconds = (value: string, options: ThaiYearOptions = {}): Date | null => {
+  if (!value || value.length !== 19) return null;
+  return parseSecondsSuffix(value, parseThaiDateTime(value.slice(0, 16), options));
+};
+
+/**
+ * Converts a Gregorian Date object to an AD string with seconds (YYYY-MM-DD HH:mm:ss)
+ */
+export const formatADDateTimeWithSeconds = (date: Date | null): string => {
+  if (!date || isNaN(date.getTime())) return "";
+  return `${formatADDateTime(date)}:${String(date.getSeconds()).padStart(2, '0')}`;
+};
+
+/**
+ * Parses an AD string with seconds (YYYY-MM-DD HH:mm:ss)
+ */
+export const parseADDateTimeWithSeconds = (value: string): Date | null => {
+  if (!value || value.length !== 19) return null;
+  return parseSecondsSuffix(value, parseADDateTime(value.slice(0, 16)));
+};
+
+// Time of day
+export interface TimeOfDay {
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+/**
+ * Time of day of a Date
+ */
+export const getTimeOfDay = (date: Date): TimeOfDay => ({
+  hour: date.getHours(),
+  minute: date.getMinutes(),
+  second: date.getSeconds(),
+});
+
+/**
+ * Same calendar day with the given time of day
+ */
+export const setTimeOfDay = (date: Date, { hour, minute, second }: TimeOfDay): Date => {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate(), hour, minute, second);
+};
+
+const toSeconds = ({ hour, minute, second }: TimeOfDay): number => hour * 3600 + minute * 60 + second;
+
+/**
+ * Converts a time of day to HH:mm (or HH:mm:ss)
+ */
+export const formatTime = (time: TimeOfDay | null, withSeconds: boolean = false): string => {
+  if (!time) return "";
+  const parts = withSeconds ? [time.hour, time.minute, time.second] : [time.hour, time.minute];
+  return parts.map((n) => String(n).padStart(2, '0')).join(":");
+};
+
+/**
+ * Parses HH:mm or HH:mm:ss; "." is accepted as separator and a trailing "น." is ignored ("14.30 น.")
+ */
+export const parseTime = (value: string): TimeOfDay | null => {
+  const match = /^(\d{1,2})[:.](\d{2})(?:[:.](\d{2}))?(?:\s*น\.?)?$/.exec(value.trim());
+  if (!match) return null;
+  const [hour, minute, second] = [Number(match[1]), Number(match[2]), Number(match[3] || 0)];
+  if (hour > 23 || minute > 59 || second > 59) return null;
+  return { hour, minute, second };
+};
+
+/**
+ * Thai style time with a dot and the "น." suffix, e.g. 14.30 น. (14.30.15 น. with seconds)
+ */
+export const formatThaiTime = (time: TimeOfDay | null, withSeconds: boolean = false): string => {
+  if (!time) return "";
+  return `${formatTime(time, withSeconds).replace(/:/g, ".")} น.`;
+};
+
+/**
+ * Converts a Gregorian Date object to a Thai BE month string (MM/YYYY)
+ */
+export const formatThaiMonth = (date: Date | null, options: ThaiYearOptions = {}): string => {
+  if (!date || isNaN(date.getTime())) return "";
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  return `${month}/${toDisplayYear(date, options)}`;
+};
+
+/**
+ * Parses a Thai BE month string (MM/YYYY) to the first day of that month.
+ */
+export const parseThaiMonth = (value: string, options: ThaiYearOptions = {}): Date | null => {
+  if (value.length !== 7) return null;
+  return parseThaiDate(`01/${value}`, options);
+};
+
+/**
+ * Converts a Gregorian Date object to a Thai BE year string (YYYY).
+ * A whole AD year spans two historical BE years, so year values always use BE_OFFSET.
+ */
+export const formatThaiYear = (date: Date | null, options: ThaiYearOptions = {}): string => {
+  if (!date || isNaN(date.getTime())) return "";
+  return String(toDisplayYear(date, { ...options, historical: false }));
+};
+
+/**
+ * Parses a Thai BE year string (YYYY) to 1 January of that year.
+ */
+export const parseThaiYear = (value: string, options: ThaiYearOptions = {}): Date | null => {
+  if (value.length !== 4) return null;
+  return parseThaiDate(`01/01/${value}`, { ...options, historical: false });
+};
+
+/**
+ * Converts a Gregorian Date object to an AD month string (YYYY-MM)
+ */
+export const formatADMonth = (date: Date | null): string => {
+  if (!date || isNaN(date.getTime())) return "";
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  return `${date.getFullYear()}-${month}`;
+};
+
+/**
+ * Parses an AD month string (YYYY-MM) to the first day of that month.
+ */
+export const parseADMonth = (value: string): Date | null => {
+  if (!value || value.length !== 7) return null;
+  return parseADDate(`${value}-01`);
+};
+
+/**
+ * Converts a Gregorian Date object to an AD year string (YYYY)
+ */
+export const formatADYear = (date: Date | null): string => {
+  if (!date || isNaN(date.getTime())) return "";
+  return String(date.getFullYear());
+};
+
+/**
+ * Parses an AD year string (YYYY) to 1 January of that year.
+ */
+export const parseADYear = (value: string): Date | null => {
+  if (!value || value.length !== 4) return null;
+  return parseADDate(`${value}-01-01`);
+};
+
+// Token-based formatting
+export const THAI_DIGITS = ["๐", "๑", "๒", "๓", "๔", "๕", "๖", "๗", "๘", "๙"];
+
+export interface ThaiFormatOptions {
+  thaiDigits?: boolean; // Render every digit as ๐-๙
+  historical?: boolean; // BBBB/BB use the pre-2484 offset for January-March (see toBuddhistYear)
+  // Names for MMM/MMMM and E/EEEE (weekdays Sunday first); default Thai
+  monthNames?: string[];
+  monthNamesShort?: string[];
+  dayNames?: string[];
+  dayNamesShort?: string[];
+}
+
+/**
+ * Replaces Arabic digits with Thai digits (18/02/2569 -> ๑๘/๐๒/๒๕๖๙)
+ */
+export const toThaiDigits = (value: string): string => {
+  return value.replace(/[0-9]/g, (digit) => THAI_DIGITS[Number(digit)]);
+};
+
+// Longest tokens first so "MMMM" is not read as "MM" + "MM"; [text] is an escaped literal
+const FORMAT_TOKEN_REGEX = /\[([^\]]*)\]|BBBB|BB|YYYY|YY|MMMM|MMM|MM|M|EEEE|E|dd|d|HH|H|mm|m|ss|s/g;
+
+/**
+ * Formats a date with tokens:
+ * d/dd day, M/MM month, MMM/MMMM short/long Thai month, BBBB/BB BE year, YYYY/YY AD year,
+ * E/EEEE short/long Thai weekday, H/HH hour, m/mm minute, s/ss second, [text] literal.
+ * e.g. formatThai(date, "วันEEEEที่ d MMM BBBB", { thaiDigits: true }) -> "วันพุธที่ ๑๘ ก.พ. ๒๕๖๙"
+ */
+export const formatThai = (date: Date | null, pattern: string, options: ThaiFormatOptions = {}): string => {
+  if (!date || isNaN(date.getTime())) return "";
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const yearBE = toBuddhistYear(date, options.historical);
+  const {
+    monthNames = THAI_MONTHS,
+    monthNamesShort = THAI_MONTHS_SHORT,
+    dayNames = THAI_DAYS,
+    dayNamesShort = THAI_DAYS_SHORT,
+  } = options;
+
+  const tokens: Record<string, () => string> = {
+    d: () => String(date.getDate()),
+    dd: () => pad(date.getDate()),
+    M: () => String(date.getMonth() + 1),
+    MM: () => pad(date.getMonth() + 1),
+    MMM: () => monthNamesShort[date.getMonth()],
+    MMMM: () => monthNames[date.getMonth()],
+    BB: () => pad(yearBE % 100),
+    BBBB: () => String(yearBE),
+    YY: () => pad(date.getFullYear() % 100),
+    YYYY: () => String(date.getFullYear()),
+    E: () => dayNamesShort[date.getDay()],
+    EEEE: () => dayNames[date.getDay()],
+    H: () => String(date.getHours()),
+    HH: () => pad(date.getHours()),
+    m: () => String(date.getMinutes()),
+    mm: () => pad(date.getMinutes()),
+    s: () => String(date.getSeconds()),
+    ss: () => pad(date.getSeconds()),
+  };
+
+  const result = pattern.replace(FORMAT_TOKEN_REGEX, (match, literal?: string) =>
+    literal !== undefined ? literal : tokens[match]()
+  );
+  return options.thaiDigits ? toThaiDigits(result) : result;
+};
+
+/**
+ * Replaces Thai digits with Arabic digits (๑๘/๐๒/๒๕๖๙ -> 18/02/2569)
+ */
+export const fromThaiDigits = (value: string): string => {
+  return value.replace(/[๐-๙]/g, (digit) => String(THAI_DIGITS.indexOf(digit)));
+};
+
+// Relative keywords accepted by parseThaiDateLenient (offset in days from today)
+const RELATIVE_DAY_KEYWORDS: Record<string, number> = {
+  "วันนี้": 0,
+  "พรุ่งนี้": 1,
+  "มะรืนนี้": 2,
+  "เมื่อวาน": -1,
+  "เมื่อวานนี้": -1,
+};
+
+// Full names, short names and short names without dots (กพ), longest first so "มกราคม" wins over "มค"
+const MONTH_NAME_LOOKUP: [string, number][] = [
+  ...THAI_MONTHS.map((name, i): [string, number] => [name, i]),
+  ...THAI_MONTHS_SHORT.map((name, i): [string, number] => [name, i]),
+  ...THAI_MONTHS_SHORT.map((name, i): [string, number] => [name.replace(/\./g, ''), i]),
+].sort((a, b) => b[0].length - a[0].length);
+
+/**
+ * Parses free-form and pasted input into a Gregorian Date object.
+ * Accepts Thai or Arabic digits, Thai month names (full/short), "/", "-", "." or space separators,
+ * 2-digit BE years (69 -> 2569), ISO AD strings (2026-02-18), an optional time (14:30 / 14.30 น.)
+ * and the keywords วันนี้ / พรุ่งนี้ / เมื่อวาน.
+ * Years are BE unless marked ค.ศ., shaped like ISO, or a 4-digit year below 2400
+ * (2-digit years are AD with era "AD" unless marked พ.ศ.).
+ * The result goes through parseThaiDate, so the same validation, historical offset and year range apply.
+ */
+export const parseThaiDateLenient = (
+  value: string,
+  now: Date = systemClock(),
+  options: ThaiYearOptions = {}
+): Date | null => {
+  let text = fromThaiDigits(value).trim();
+  if (!text) return null;
+
+  const relativeDays = RELATIVE_DAY_KEYWORDS[text];
+  if (relativeDays !== undefined) {
+    return new Date(now.getFullYear(), now.getMonth(), now.getDate() + relativeDays);
+  }
+
+  // ISO shape is always AD: 2026-02-18, 2026-02-18 14:30, 2026-02-18T14:30:15.000+07:00.
+  // The wall time is kept as written (an offset is allowed but not applied); anything after it rejects the text
+  if (/^\d{4}-/.test(text)) {
+    const iso = text.match(
+      /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?\s*$/
+    );
+    if (!iso) return null;
+    const [, y, m, d, hh, mm, ss = '0'] = iso;
+    const date = parseADDate(`${y}-${m.padStart(2, '0')}-${d.padStart(2, '0')}`);
+    if (!date || hh === undefined) return date;
+    if (Number(hh) > 23 || Number(mm) > 59 || Number(ss) > 59) return null;
+    date.setHours(Number(hh), Number(mm), Number(ss));
+    return date;
+  }
+
+  // Era markers decide how the year is read; strip them before month names (พ.ศ. looks like a short name)
+  const isExplicitAD = /ค\.?\s?ศ\.?/.test(text);
+  const isExplicitBE = /พ\.?\s?ศ\.?/.test(text);
+  text = text.replace(/[พค]\.?\s?ศ\.?/g, ' ');
+
+  // Trailing time: " 14:30", " 14.30 น."
+  let time: { hour: number; minute: number } | null = null;
+  const timeMatch = text.match(/\s(\d{1,2})[:.](\d{2})\s*(?:น\.?)?$/);
+  if (timeMatch) {
+    time = { hour: Number(timeMatch[1]), minute: Number(timeMatch[2]) };
+    if (time.hour > 23 || time.minute > 59) return null;
+    text = text.slice(0, timeMatch.index);
+  }
+
+  for (const [name, index] of MONTH_NAME_LOOKUP) {
+    if (text.includes(name)) {
+      text = text.replace(name, ` ${index + 1} `);
+      break;
+    }
+  }
+
+  // Drop leftover Thai words such as "วันพุธที่"
+  text = text.replace(/[\u0E00-\u0E7F]+\.?/g, ' ');
+
+  const parts = text.split(/[\s\/\-.,]+/).filter(Boolean);
+  if (parts.length !== 3 || parts.some((p) => !/^\d+$/.test(p))) return null;
+
+  const [dayStr, monthStr, yearStr] = parts;
+  let year = Number(yearStr);
+  if (yearStr.length <= 2) {
+    year += isExplicitAD || (options.era === "AD" && !isExplicitBE) ? 2000 : 2500;
+  }
+  const era = isExplicitAD || year < 2400 ? "AD" : "BE";
+
+  const date = parseThaiDate(
+    `${dayStr.padStart(2, '0')}/${monthStr.padStart(2, '0')}/${String(year).padStart(4, '0')}`,
+    { ...options, era }
+  );
+  if (date && time) date.setHours(time.hour, time.minute);
+  return date;
+};
+
+/**
+ * Long Thai label for screen readers (วันพุธที่ 18 กุมภาพันธ์ 2569)
+ */
+export const formatThaiDateLabel = (date: Date, options: ThaiYearOptions = {}): string => {
+  const yearBE = toDisplayYear(date, options);
+  return `วัน${THAI_DAYS[date.getDay()]}ที่ ${date.getDate()} ${THAI_MONTHS[date.getMonth()]} ${yearBE}`;
+};
+
 /**
  * Checks if a string input is potentially part of a valid date format (digits and slashes)
  */
@@ -186,6 +600,510 @@ export const getDaysInMonth = (yearAD: number, monthIndex: number): number => {
   return new Date(yearAD, monthIndex + 1, 0).getDate();
 };
 
-export const getFirstDayOfMonth = (yearAD: number, monthIndex: number): number => {
-  return new Date(yearAD, monthIndex, 1).getDay();
-};
\ No newline at end of file
+/**
+ * Number of blank cells before day 1 in a week that starts on firstDayOfWeek (0 = Sunday, 1 = Monday)
+ */
+export const getFirstDayOfMonth = (yearAD: number, monthIndex: number, firstDayOfWeek: number = 0): number => {
+  return (new Date(yearAD, monthIndex, 1).getDay() - firstDayOfWeek + 7) % 7;
+};
+
+/**
+ * Checks whether two dates fall on the same calendar day (time is ignored)
+ */
+export const isSameDay = (d1: Date | null, d2: Date | null): boolean => {
+  if (!d1 || !d2) return false;
+  return (
+    d1.getFullYear() === d2.getFullYear() &&
+    d1.getMonth() === d2.getMonth() &&
+    d1.getDate() === d2.getDate()
+  );
+};
+
+// Date Arithmetic (calendar based; the time of day is kept)
+
+/**
+ * Adds (or subtracts) calendar days
+ */
+export const addDays = (date: Date, days: number): Date => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+/**
+ * Adds (or subtracts) months, clamping to the last day when the day does not exist (31 Jan + 1 -> 28/29 Feb)
+ */
+export const addMonths = (date: Date, months: number): Date => {
+  const result = new Date(date);
+  result.setDate(1);
+  result.setMonth(result.getMonth() + months);
+  result.setDate(Math.min(date.getDate(), getDaysInMonth(result.getFullYear(), result.getMonth())));
+  return result;
+};
+
+/**
+ * Adds (or subtracts) years; 29 Feb becomes 28 Feb in a common year
+ */
+export const addYears = (date: Date, years: number): Date => addMonths(date, years * 12);
+
+/**
+ * Calendar days from start to end (negative when end is earlier); add 1 to count both ends, e.g. for leave
+ */
+export const diffInDays = (start: Date, end: Date): number => {
+  const startDay = Date.UTC(start.getFullYear(), start.getMonth(), start.getDate());
+  const endDay = Date.UTC(end.getFullYear(), end.getMonth(), end.getDate());
+  return Math.round((endDay - startDay) / 86400000);
+};
+
+export interface ThaiDuration {
+  years: number;
+  months: number;
+  days: number;
+}
+
+/**
+ * Age in completed years, months and days ("35 ปี 2 เดือน 10 วัน" with formatThaiDuration).
+ * Takes Dates or AD strings (YYYY-MM-DD, a time part is ignored); null when invalid or onAD is before birthAD.
+ */
+export const calculateAge = (birthAD: Date | string, onAD: Date | string = systemClock()): ThaiDuration | null => {
+  const birth = typeof birthAD === "string" ? parseADDate(birthAD.slice(0, 10)) : birthAD;
+  const on = typeof onAD === "string" ? parseADDate(onAD.slice(0, 10)) : onAD;
+  if (!birth || !on || diffInDays(birth, on) < 0) return null;
+
+  // Whole months: the last monthly anniversary (clamped like addMonths) that is not after onAD
+  let months = (on.getFullYear() - birth.getFullYear()) * 12 + on.getMonth() - birth.getMonth();
+  if (diffInDays(addMonths(birth, months), on) < 0) months--;
+  return {
+    years: Math.floor(months / 12),
+    months: months % 12,
+    days: diffInDays(addMonths(birth, months), on),
+  };
+};
+
+/**
+ * Thai text of a duration, leaving out zero parts: "35 ปี 2 เดือน 10 วัน", "1 ปี", "0 วัน".
+ * Pass only days for day counts, e.g. formatThaiDuration({ days: diffInDays(start, end) + 1 }) -> "5 วัน".
+ */
+export const formatThaiDuration = (
+  { years = 0, months = 0, days = 0 }: Partial<ThaiDuration>,
+  options: { thaiDigits?: boolean } = {}
+): string => {
+  const parts = [
+    years ? `${years} ปี` : "",
+    months ? `${months} เดือน` : "",
+    days ? `${days} วัน` : "",
+  ].filter(Boolean);
+  const result = parts.length ? parts.join(" ") : "0 วัน";
+  return options.thaiDigits ? toThaiDigits(result) : result;
+};
+
+/**
+ * Formats a start/end pair as a Thai BE range string (DD/MM/YYYY – DD/MM/YYYY)
+ */
+export const formatThaiDateRange = (start: Date | null, end: Date | null, options: ThaiYearOptions = {}): string => {
+  if (!start) return "";
+  if (!end) return `${formatThaiDate(start, options)} – `;
+  return `${formatThaiDate(start, options)} – ${formatThaiDate(end, options)}`;
+};
+
+export interface ThaiDateListOptions extends ThaiYearOptions {
+  monthNamesShort?: string[];
+  formatCount?: (count: number) => string; // Default "3 วัน"
+}
+
+/**
+ * Compact BE summary of several days, grouped by month: "3 วัน: 18, 20, 25 ก.พ. 2569".
+ * The year is written once per run of months in the same year: "2 วัน: 31 ธ.ค. 2568, 2 ม.ค. 2569"
+ */
+export const formatThaiDateList = (dates: Date[], options: ThaiDateListOptions = {}): string => {
+  const { monthNamesShort = THAI_MONTHS_SHORT, formatCount = (count: number) => `${count} วัน` } = options;
+  if (dates.length === 0) return "";
+  const sorted = [...dates].sort((a, b) => a.getTime() - b.getTime());
+  const groups: Date[][] = [];
+  for (const date of sorted) {
+    const group = groups[groups.length - 1];
+    if (group && group[0].getFullYear() === date.getFullYear() && group[0].getMonth() === date.getMonth()) {
+      group.push(date);
+    } else {
+      groups.push([date]);
+    }
+  }
+  const parts = groups.map((group, i) => {
+    const first = group[0];
+    const next = groups[i + 1];
+    const days = group.map((d) => d.getDate()).join(", ");
+    // Compared as displayed, since with historical a January and an April of the same AD year differ in BE
+    const year = !next || toDisplayYear(next[0], options) !== toDisplayYear(first, options) ? ` ${toDisplayYear(first, options)}` : "";
+    return `${days} ${monthNamesShort[first.getMonth()]}${year}`;
+  });
+  return `${formatCount(sorted.length)}: ${parts.join(", ")}`;
+};
+
+// Date Constraints
+export interface DateConstraints {
+  minDate?: Date | null;
+  maxDate?: Date | null;
+  shouldDisableDate?: (date: Date) => boolean;
+}
+
+const startOfDay = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+// Why a typed value was rejected; null means valid (or empty)
+export type DateValidationError =
+  | 'incomplete'
+  | 'invalidDate'
+  | 'outOfRange'
+  | 'minDate'
+  | 'maxDate'
+  | 'shouldDisableDate'
+  | 'minTime'
+  | 'maxTime'
+  | 'minuteStep';
+
+/**
+ * Reports which constraint a day breaks: minDate, maxDate or shouldDisableDate
+ */
+export const getDateConstraintError = (
+  date: Date,
+  { minDate, maxDate, shouldDisableDate }: DateConstraints
+): DateValidationError | null => {
+  const day = startOfDay(date).getTime();
+  if (minDate && day < startOfDay(minDate).getTime()) return 'minDate';
+  if (maxDate && day > startOfDay(maxDate).getTime()) return 'maxDate';
+  if (shouldDisableDate && shouldDisableDate(startOfDay(date))) return 'shouldDisableDate';
+  return null;
+};
+
+/**
+ * Checks if a single day is outside min/max (compared by calendar day) or rejected by shouldDisableDate
+ */
+export const isDateDisabled = (date: Date, constraints: DateConstraints): boolean => {
+  return getDateConstraintError(date, constraints) !== null;
+};
+
+/**
+ * Checks if a whole month lies outside min/max. shouldDisableDate is not consulted here.
+ */
+export const isMonthOutOfRange = (yearAD: number, monthIndex: number, { minDate, maxDate }: DateConstraints): boolean => {
+  const first = new Date(yearAD, monthIndex, 1);
+  const last = new Date(yearAD, monthIndex, getDaysInMonth(yearAD, monthIndex));
+  if (minDate && last.getTime() < startOfDay(minDate).getTime()) return true;
+  if (maxDate && first.getTime() > startOfDay(maxDate).getTime()) return true;
+  return false;
+};
+
+/**
+ * Checks if a whole year lies outside min/max
+ */
+export const isYearOutOfRange = (yearAD: number, { minDate, maxDate }: DateConstraints): boolean => {
+  if (minDate && yearAD < minDate.getFullYear()) return true;
+  if (maxDate && yearAD > maxDate.getFullYear()) return true;
+  return false;
+};
+
+// Partial Dates: civil records (ID cards, house registration) may not know the day, or the day and month
+export interface PartialDate {
+  yearAD: number;
+  monthIndex: number | null; // null = unknown month (the day is then unknown too)
+  day: number | null; // null = unknown day
+}
+
+/**
+ * Partial date of a full Date (every part known)
+ */
+export const toPartialDate = (date: Date): PartialDate => ({
+  yearAD: date.getFullYear(),
+  monthIndex: date.getMonth(),
+  day: date.getDate(),
+});
+
+/**
+ * Checks if every part of a partial date is known
+ */
+export const isPartialDateComplete = ({ monthIndex, day }: PartialDate): boolean => monthIndex !== null && day !== null;
+
+/**
+ * Date of a complete partial date; null while the day or month is unknown
+ */
+export const fromPartialDate = (partial: PartialDate): Date | null => {
+  const { yearAD, monthIndex, day } = partial;
+  return monthIndex !== null && day !== null ? new Date(yearAD, monthIndex, day) : null;
+};
+
+// 00 marks an unknown part; a known day needs a known month and must exist in it
+const buildPartialDate = (yearAD: number, month: number, day: number): PartialDate | null => {
+  if (month < 0 || month > 12 || day < 0 || (month === 0 && day !== 0)) return null;
+  if (month !== 0 && day > getDaysInMonth(yearAD, month - 1)) return null;
+  return { yearAD, monthIndex: month === 0 ? null : month - 1, day: day === 0 ? null : day };
+};
+
+/**
+ * Parses a Thai date string where 00 marks an unknown day or month (00/05/2500, 00/00/2500).
+ * Complete dates go through parseThaiDate. With historical, an unknown month reads the year
+ * from April, when the old BE year began.
+ */
+export const parseThaiPartialDate = (value: string, options: ThaiYearOptions = {}): PartialDate | null => {
+  const match = value.match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
+  if (!match) return null;
+  const day = Number(match[1]);
+  const month = Number(match[2]);
+  if (day !== 0 && month !== 0) {
+    const date = parseThaiDate(value, options);
+    return date ? toPartialDate(date) : null;
+  }
+  const year = Number(match[3]);
+  const monthIndex = month === 0 ? 3 : month - 1;
+  const yearAD = fromDisplayYear(year, monthIndex, options);
+  // Same round trip as parseThaiDate, so 00/02/2483 (never existed) is rejected
+  if (!isYearInSupportedRange(yearAD, options) || toDisplayYear(new Date(yearAD, monthIndex, 1), options) !== year) {
+    return null;
+  }
+  return buildPartialDate(yearAD, month, day);
+};
+
+/**
+ * Converts a partial date to a Thai string with 00 for the unknown parts (00/05/2500)
+ */
+export const formatThaiPartialDate = (partial: PartialDate | null, options: ThaiYearOptions = {}): string => {
+  if (!partial) return "";
+  const { yearAD, monthIndex, day } = partial;
+  const dd = day === null ? "00" : String(day).padStart(2, '0');
+  const mm = monthIndex === null ? "00" : String(monthIndex + 1).padStart(2, '0');
+  const year = toDisplayYear(new Date(yearAD, monthIndex ?? 3, day ?? 1), options);
+  return `${dd}/${mm}/${year}`;
+};
+
+/**
+ * Parses an AD string where 00 marks an unknown day or month (1957-05-00, 1957-00-00)
+ */
+export const parseADPartialDate = (value: string): PartialDate | null => {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+  return buildPartialDate(Number(match[1]), Number(match[2]), Number(match[3]));
+};
+
+/**
+ * Converts a partial date to an AD string with 00 for the unknown parts (1957-05-00)
+ */
+export const formatADPartialDate = (partial: PartialDate | null): string => {
+  if (!partial) return "";
+  const { yearAD, monthIndex, day } = partial;
+  const mm = monthIndex === null ? "00" : String(monthIndex + 1).padStart(2, '0');
+  const dd = day === null ? "00" : String(day).padStart(2, '0');
+  return `${yearAD}-${mm}-${dd}`;
+};
+
+/**
+ * Sort comparator: year, then month, then day, an unknown part before the known ones (00/05/2500 < 01/05/2500)
+ */
+export const comparePartialDates = (a: PartialDate, b: PartialDate): number => {
+  return a.yearAD - b.yearAD || (a.monthIndex ?? -1) - (b.monthIndex ?? -1) || (a.day ?? 0) - (b.day ?? 0);
+};
+
+/**
+ * First and last day a partial date may stand for (00/05/2500 -> 1-31 May 1957)
+ */
+export const getPartialDateRange = ({ yearAD, monthIndex, day }: PartialDate): { start: Date; end: Date } => {
+  if (monthIndex === null) return { start: new Date(yearAD, 0, 1), end: new Date(yearAD, 11, 31) };
+  if (day === null) return { start: new Date(yearAD, monthIndex, 1), end: new Date(yearAD, monthIndex + 1, 0) };
+  return { start: new Date(yearAD, monthIndex, day), end: new Date(yearAD, monthIndex, day) };
+};
+
+/**
+ * Reports minDate/maxDate when no day a partial date may stand for is allowed.
+ * A complete partial date is checked like any other day.
+ */
+export const getPartialDateConstraintError = (
+  partial: PartialDate,
+  constraints: DateConstraints
+): DateValidationError | null => {
+  const date = fromPartialDate(partial);
+  if (date) return getDateConstraintError(date, constraints);
+  const { yearAD, monthIndex } = partial;
+  const isOut =
+    monthIndex === null ? isYearOutOfRange(yearAD, constraints) : isMonthOutOfRange(yearAD, monthIndex, constraints);
+  if (!isOut) return null;
+  const { minDate } = constraints;
+  return minDate && getPartialDateRange(partial).end.getTime() < startOfDay(minDate).getTime() ? 'minDate' : 'maxDate';
+};
+
+// Time Constraints: allowed time of day on every date (e.g. clinic hours 08:30 - 16:30)
+export interface TimeConstraints {
+  minTime?: TimeOfDay | null;
+  maxTime?: TimeOfDay | null;
+  minuteStep?: number; // Minutes must be a multiple of it (15 -> 00, 15, 30, 45)
+}
+
+/**
+ * Reports whether a time of day is before minTime, after maxTime or off the minute step
+ */
+export const getTimeConstraintError = (
+  time: TimeOfDay,
+  { minTime, maxTime, minuteStep }: TimeConstraints
+): DateValidationError | null => {
+  if (minTime && toSeconds(time) < toSeconds(minTime)) return 'minTime';
+  if (maxTime && toSeconds(time) > toSeconds(maxTime)) return 'maxTime';
+  if (minuteStep && time.minute % minuteStep !== 0) return 'minuteStep';
+  return null;
+};
+
+/**
+ * Moves a time of day into the minTime - maxTime range
+ */
+export const clampTime = (time: TimeOfDay, { minTime, maxTime }: TimeConstraints): TimeOfDay => {
+  if (minTime && toSeconds(time) < toSeconds(minTime)) return minTime;
+  if (maxTime && toSeconds(time) > toSeconds(maxTime)) return maxTime;
+  return time;
+};
+
+// Thai Government Fiscal Year (ปีงบประมาณ): 1 October - 30 September, named by the BE year it ends in
+const FISCAL_YEAR_START_MONTH = 9; // October
+
+/**
+ * Fiscal year (BE) a date belongs to, e.g. 2025-10-01 -> 2569
+ */
+export const getFiscalYearBE = (date: Date): number => {
+  const yearAD = date.getMonth() >= FISCAL_YEAR_START_MONTH ? date.getFullYear() + 1 : date.getFullYear();
+  return yearAD + BE_OFFSET;
+};
+
+/**
+ * First and last day of a fiscal year, e.g. 2569 -> 2025-10-01 to 2026-09-30
+ */
+export const getFiscalYearRange = (fiscalYearBE: number): { start: Date; end: Date } => {
+  const endYearAD = fiscalYearBE - BE_OFFSET;
+  return {
+    start: new Date(endYearAD - 1, FISCAL_YEAR_START_MONTH, 1),
+    end: new Date(endYearAD, FISCAL_YEAR_START_MONTH, 0),
+  };
+};
+
+/**
+ * Fiscal quarter (1-4) of a date: Oct-Dec = 1, Jan-Mar = 2, Apr-Jun = 3, Jul-Sep = 4
+ */
+export const getFiscalQuarter = (date: Date): number => {
+  return Math.floor(((date.getMonth() - FISCAL_YEAR_START_MONTH + 12) % 12) / 3) + 1;
+};
+
+/**
+ * First and last day of a fiscal quarter, e.g. (2569, 2) -> 2026-01-01 to 2026-03-31
+ */
+export const getFiscalQuarterRange = (fiscalYearBE: number, quarter: number): { start: Date; end: Date } => {
+  const { start: fiscalStart } = getFiscalYearRange(fiscalYearBE);
+  const startMonth = fiscalStart.getMonth() + (quarter - 1) * 3;
+  return {
+    start: new Date(fiscalStart.getFullYear(), startMonth, 1),
+    end: new Date(fiscalStart.getFullYear(), startMonth + 3, 0),
+  };
+};
+
+// Time Zones
+// Dates in this module are wall-clock values: their local fields (getFullYear, getHours...) hold the time
+// as read in the picker's zone. These helpers convert between real instants and that wall clock.
+export const DEFAULT_TIME_ZONE = "Asia/Bangkok";
+
+const zoneFormatters = new Map<string, Intl.DateTimeFormat>();
+
+const getZonedParts = (instant: Date, timeZone: string): number[] => {
+  let formatter = zoneFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    zoneFormatters.set(timeZone, formatter);
+  }
+  const parts = formatter.formatToParts(instant);
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  return [get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second")];
+};
+
+/**
+ * Offset of a time zone from UTC at the given instant, in minutes (Asia/Bangkok -> 420)
+ */
+export const getTimeZoneOffset = (instant: Date, timeZone: string = DEFAULT_TIME_ZONE): number => {
+  const [year, month, day, hour, minute, second] = getZonedParts(instant, timeZone);
+  const asUTC = Date.UTC(year, month, day, hour, minute, second);
+  return Math.round((asUTC - Math.floor(instant.getTime() / 1000) * 1000) / 60000);
+};
+
+/**
+ * Wall-clock time of an instant in a time zone, e.g. 2026-02-18T07:30Z -> 18 Feb 2026 14:30 (Asia/Bangkok)
+ */
+export const toZonedTime = (instant: Date, timeZone: string = DEFAULT_TIME_ZONE): Date => {
+  const [year, month, day, hour, minute, second] = getZonedParts(instant, timeZone);
+  return new Date(year, month, day, hour, minute, second);
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Instant that a wall-clock time in a time zone refers to (inverse of toZonedTime).
+ * Around a DST switch it resolves like Temporal's "compatible" mode: a repeated time takes the earlier instant,
+ * and a skipped time is pushed forward by the gap (2026-03-08 02:30 in America/New_York -> 03:30 -04:00).
+ */
+export const fromZonedTime = (wallClock: Date, timeZone: string = DEFAULT_TIME_ZONE): Date => {
+  const asUTC = Date.UTC(
+    wallClock.getFullYear(),
+    wallClock.getMonth(),
+    wallClock.getDate(),
+    wallClock.getHours(),
+    wallClock.getMinutes(),
+    wallClock.getSeconds()
+  );
+  // Offsets a day before and after; they differ only around a DST switch
+  const offsets = [
+    getTimeZoneOffset(new Date(asUTC - DAY_MS), timeZone),
+    getTimeZoneOffset(new Date(asUTC + DAY_MS), timeZone),
+  ];
+  const candidates = offsets.map((offset) => asUTC - offset * 60000);
+  const valid = candidates.filter((instant, i) => getTimeZoneOffset(new Date(instant), timeZone) === offsets[i]);
+  // None is valid inside a gap: the offset from before the switch lands past it
+  return new Date(valid.length ? Math.min(...valid) : candidates[0]);
+};
+
+/**
+ * Current wall-clock time in a time zone; use instead of new Date() for "today"
+ */
+export const nowInTimeZone = (timeZone: string = DEFAULT_TIME_ZONE, clock: Clock = systemClock): Date => {
+  return toZonedTime(clock(), timeZone);
+};
+
+/**
+ * Converts a wall-clock Date to ISO 8601 with the zone's offset (2026-02-18T14:30:00+07:00).
+ * A time skipped by DST is written as the instant fromZonedTime resolves it to, so it reads back unchanged
+ * (2026-03-08 02:30 in America/New_York -> 2026-03-08T03:30:00-04:00).
+ */
+export const formatISODateTime = (wallClock: Date | null, timeZone: string = DEFAULT_TIME_ZONE): string => {
+  if (!wallClock || isNaN(wallClock.getTime())) return "";
+  const instant = fromZonedTime(wallClock, timeZone);
+  const date = toZonedTime(instant, timeZone);
+  const offset = getTimeZoneOffset(instant, timeZone);
+  const sign = offset < 0 ? "-" : "+";
+  const offsetHour = String(Math.floor(Math.abs(offset) / 60)).padStart(2, '0');
+  const offsetMinute = String(Math.abs(offset) % 60).padStart(2, '0');
+  const time = [date.getHours(), date.getMinutes(), date.getSeconds()].map((n) => String(n).padStart(2, '0')).join(":");
+  return `${formatADDate(date)}T${time}${sign}${offsetHour}:${offsetMinute}`;
+};
+
+/**
+ * Parses an ISO 8601 instant with an offset or Z (2026-02-18T07:30:00Z) into wall-clock time in a time zone.
+ * Values without an offset are rejected because the instant they mean is ambiguous.
+ */
+export const parseISODateTime = (
+  value: string,
+  timeZone: string = DEFAULT_TIME_ZONE,
+  options: ThaiYearOptions = {}
+): Date | null => {
+  if (!/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/.test(value)) return null;
+  const instant = new Date(value);
+  if (isNaN(instant.getTime())) return null;
+  const date = toZonedTime(instant, timeZone);
+  return isYearInSupportedRange(date.getFullYear(), options) ? date : null;
+};
@@ -0,0 +1,137 @@
+import { formatADDate } from './dateUtils';
+
+export interface ThaiHoliday {
+  date: string; // AD string: "2026-04-13"
+  name: string;
+}
+
+// A holiday that falls on the same day every year (monthIndex is 0-based like Date)
+export interface FixedHoliday {
+  monthIndex: number;
+  day: number;
+  name: string;
+}
+
+export interface HolidayProvider {
+  getHolidays: (yearAD: number) => ThaiHoliday[];
+  getHoliday: (date: Date) => ThaiHoliday | null;
+  isHoliday: (date: Date) => boolean;
+  isWeekend: (date: Date) => boolean;
+}
+
+export interface HolidayProviderOptions {
+  fixedHolidays?: FixedHoliday[];
+  // Year-specific holidays: lunar Buddhist days, substitution days (วันหยุดชดเชย), special cabinet holidays
+  getYearHolidays?: (yearAD: number) => ThaiHoliday[];
+  // Day-of-week indexes treated as weekend (0 = Sunday)
+  weekendDays?: number[];
+}
+
+/**
+ * Thai public holidays that fall on a fixed solar date.
+ * Lunar holidays (มาฆบูชา, วิสาขบูชา, อาสาฬหบูชา, เข้าพรรษา) move every year and belong in getYearHolidays.
+ */
+export const THAI_FIXED_HOLIDAYS: FixedHoliday[] = [
+  { monthIndex: 0, day: 1, name: "วันขึ้นปีใหม่" },
+  { monthIndex: 3, day: 6, name: "วันจักรี" },
+  { monthIndex: 3, day: 13, name: "วันสงกรานต์" },
+  { monthIndex: 3, day: 14, name: "วันสงกรานต์" },
+  { monthIndex: 3, day: 15, name: "วันสงกรานต์" },
+  { monthIndex: 4, day: 1, name: "วันแรงงานแห่งชาติ" },
+  { monthIndex: 4, day: 4, name: "วันฉัตรมงคล" },
+  { monthIndex: 5, day: 3, name: "วันเฉลิมพระชนมพรรษาสมเด็จพระราชินี" },
+  { monthIndex: 6, day: 28, name: "วันเฉลิมพระชนมพรรษาพระบาทสมเด็จพระเจ้าอยู่หัว" },
+  { monthIndex: 7, day: 12, name: "วันแม่แห่งชาติ" },
+  { monthIndex: 9, day: 13, name: "วันนวมินทรมหาราช" },
+  { monthIndex: 9, day: 23, name: "วันปิยมหาราช" },
+  { monthIndex: 11, day: 5, name: "วันพ่อแห่งชาติ" },
+  { monthIndex: 11, day: 10, name: "วันรัฐธรรมนูญ" },
+  { monthIndex: 11, day: 31, name: "วันสิ้นปี" },
+];
+
+/**
+ * Creates a holiday provider from a fixed table plus an optional per-year hook.
+ * Holidays are resolved once per year and cached.
+ */
+export const createHolidayProvider = ({
+  fixedHolidays = THAI_FIXED_HOLIDAYS,
+  getYearHolidays,
+  weekendDays = [0, 6],
+}: HolidayProviderOptions = {}): HolidayProvider => {
+  const cache = new Map<number, Map<string, ThaiHoliday>>();
+
+  const getYearMap = (yearAD: number): Map<string, ThaiHoliday> => {
+    let yearMap = cache.get(yearAD);
+    if (!yearMap) {
+      yearMap = new Map();
+      for (const { monthIndex, day, name } of fixedHolidays) {
+        const date = formatADDate(new Date(yearAD, monthIndex, day));
+        yearMap.set(date, { date, name });
+      }
+      // Year-specific entries win over the fixed table for the same date
+      for (const holiday of getYearHolidays ? getYearHolidays(yearAD) : []) {
+        yearMap.set(holiday.date, holiday);
+      }
+      cache.set(yearAD, yearMap);
+    }
+    return yearMap;
+  };
+
+  const getHoliday = (date: Date): ThaiHoliday | null => {
+    return getYearMap(date.getFullYear()).get(formatADDate(date)) || null;
+  };
+
+  return {
+    getHolidays: (yearAD) => Array.from(getYearMap(yearAD).values()).sort((a, b) => a.date.localeCompare(b.date)),
+    getHoliday,
+    isHoliday: (date) => getHoliday(date) !== null,
+    isWeekend: (date) => weekendDays.includes(date.getDay()),
+  };
+};
+
+// Fixed Thai holidays only; supply getYearHolidays for substitution and special days
+export const thaiHolidayProvider = createHolidayProvider();
+
+/**
+ * A business day is neither a weekend nor a holiday
+ */
+export const isBusinessDay = (date: Date, provider: HolidayProvider = thaiHolidayProvider): boolean => {
+  return !provider.isWeekend(date) && !provider.isHoliday(date);
+};
+
+/**
+ * Moves forward (or backward for negative amounts) by the given number of business days.
+ * The start date itself is never counted, e.g. "within 15 working days" = addBusinessDays(received, 15).
+ */
+export const addBusinessDays = (
+  date: Date,
+  amount: number,
+  provider: HolidayProvider = thaiHolidayProvider
+): Date => {
+  const step = amount < 0 ? -1 : 1;
+  let remaining = Math.abs(amount);
+  let current = new Date(date);
+  while (remaining > 0) {
+    current = new Date(current.getFullYear(), current.getMonth(), current.getDate() + step, current.getHours(), current.getMinutes());
+    if (isBusinessDay(current, provider)) remaining--;
+  }
+  return current;
+};
+
+/**
+ * Counts business days between two dates, both ends inclusive. Returns 0 when end is before start.
+ */
+export const countBusinessDays = (
+  start: Date,
+  end: Date,
+  provider: HolidayProvider = thaiHolidayProvider
+): number => {
+  let count = 0;
+  let current = new Date(start.getFullYear(), start.getMonth(), start.getDate());
+  const last = new Date(end.getFullYear(), end.getMonth(), end.getDate());
+  while (current.getTime() <= last.getTime()) {
+    if (isBusinessDay(current, provider)) count++;
+    current = new Date(current.getFullYear(), current.getMonth(), current.getDate() + 1);
+  }
+  return count;
+};
@@ -1,523 +1,576 @@
-import React, { useState, useEffect, useMemo } from 'react';
-import {
-  TextField,
-  Popover,
-  IconButton,
-  InputAdornment,
-  Box,
-  Typography,
-  Button,
-  Select,
-  MenuItem,
-  FormControl,
-  Grid,
-  Divider,
-  TextFieldProps,
-} from '@mui/material';
-import { CalendarMonth, ChevronLeft, ChevronRight, Close, AccessTime, Check } from '@mui/icons-material';
+import React, { useState, useEffect, useRef, useImperativeHandle } from 'react';
+import { TextField, IconButton, InputAdornment, Box, TextFieldProps, SvgIconProps, useMediaQuery } from '@mui/material';
+import { useForkRef } from '@mui/material/utils';
+import { CalendarMonth, Close } from '@mui/icons-material';
+
+import { DateValidationError, ThaiFormatOptions, parseADDate, formatThaiDateList } from './dateUtils';
+import { HolidayProvider, thaiHolidayProvider } from './holidays';
+import { ViewMode, ValueFormatOption, DEFAULT_VIEWS } from './pickerUtils';
+import { useThaiDatePicker } from './useThaiDatePicker';
+import ThaiCalendar, { ThaiCalendarSlots, ThaiCalendarSlotProps } from './ThaiCalendar';
+import { ThaiCalendarDayProps, DateHighlight } from './ThaiCalendarDay';
+import { useDatePickerLocale } from './locale';
+import { DatePickerPopover } from './DatePickerPopoverProvider';
+import { DatePresetOption } from './presets';
+import { DatePresetsLayout } from './ThaiCalendarPresets';
+import ThaiMobileDialog from './ThaiMobileDialog';
+
+export type { ViewMode } from './pickerUtils';
+
+// Calendar slots plus the icon of the open-calendar button
+export interface ThaiDatePickerSlots extends ThaiCalendarSlots {
+  openPickerIcon?: React.ElementType;
+}
+
+export interface ThaiDatePickerSlotProps extends ThaiCalendarSlotProps {
+  openPickerIcon?: SvgIconProps;
+}
 
-import {
-  formatThaiDate,
-  parseThaiDate,
-  formatThaiDateTime,
-  parseThaiDateTime,
-  formatADDate,
-  parseADDate,
-  formatADDateTime,
-  parseADDateTime,
-  BE_OFFSET,
-  THAI_MONTHS,
-  getDaysInMonth,
-  getFirstDayOfMonth,
-} from './dateUtils';
+// Methods on the ref: open/close the calendar (close drops the draft), focus the input, clear the value
+export interface ThaiDatePickerHandle {
+  open: () => void;
+  close: () => void;
+  focus: () => void;
+  clear: () => void;
+}
 
 // Extend MUI TextFieldProps so we can pass things like size="small", fullWidth, etc.
 // Value is now string (AD format YYYY-MM-DD)
-interface ThaiDatePickerProps extends Omit<TextFieldProps, 'value' | 'onChange'> {
+interface ThaiDatePickerBaseProps extends Omit<TextFieldProps, 'value' | 'onChange' | 'onError' | 'variant'> {
+  // 'mobile' opens a full-screen dialog with wheels, 'desktop' the calendar popover; any other value is the
+  // TextField variant and the mode follows desktopModeMediaQuery
+  variant?: TextFieldProps['variant'] | 'mobile' | 'desktop';
+  desktopModeMediaQuery?: string;
+  withTime?: boolean;
+  // Time selection: seconds, minute slots (e.g. 15) and allowed hours ("08:30" - "16:30")
+  withSeconds?: boolean;
+  minuteStep?: number;
+  minTime?: string;
+  maxTime?: string;
+  // Show the time Thai style while not focused: "18/02/2569 14.30 น."
+  thaiTimeSuffix?: boolean;
+  // Reachable views; the finest one commits the value (['year','month'] -> "2026-02", ['year'] -> "2026")
+  views?: ViewMode[];
+  openTo?: ViewMode;
+  // Zone the value is displayed and picked in, regardless of the browser or server zone
+  timeZone?: string;
+  // 'iso' emits "2026-02-18T14:30:00+07:00" and accepts any ISO instant (e.g. UTC "...Z") as value
+  valueFormat?: ValueFormatOption;
+  // Type and show January-March before 1941 with the old BE year (01/02/2482 = 1 Feb 1940)
+  historicalBE?: boolean;
+  // Accept an unknown day or month as on Thai ID cards: "00/05/2500" -> "1957-05-00", "00/00/2500" -> "1957-00-00"
+  allowPartial?: boolean;
+  // Constraints (AD strings, same format as value; only the date part is compared)
+  minDate?: string;
+  maxDate?: string;
+  // Supported AD years for typing and the calendar (default: current year +/- 100)
+  minYear?: number;
+  maxYear?: number;
+  disablePast?: boolean;
+  disableFuture?: boolean;
+  shouldDisableDate?: (date: string) => boolean;
+  // Mark weekends and holidays in day view (holiday name shown in a tooltip)
+  showHolidays?: boolean;
+  holidayProvider?: HolidayProvider;
+  // Print the Thai lunar day under each day number and mark วันพระ
+  showLunar?: boolean;
+  // Colour or badge per AD date, e.g. days with appointments: { "2026-02-18": { badge: 3 } }
+  highlightedDates?: Record<string, DateHighlight>;
+  // Renders a whole day cell (see ThaiCalendarDay for the default)
+  renderDay?: (date: Date, state: ThaiCalendarDayProps) => React.ReactNode;
+  // Quick picks in the popover: built-in keys ('today', 'endOfMonth', 'in7Days', ...) or { label, getValue(now) }
+  presets?: DatePresetOption[];
+  // Chips above the footer (default) or a list beside the calendar
+  presetsLayout?: DatePresetsLayout;
+  // Replace or extend the day cell, calendar header, weekday row, footer, presets and open-calendar icon
+  slots?: ThaiDatePickerSlots;
+  slotProps?: ThaiDatePickerSlotProps;
+  // Show the age on today's date below the field, e.g. "อายุ 35 ปี 2 เดือน 10 วัน" for birth dates
+  showAge?: boolean;
+  // "Now" for today, the initial calendar page, age and the default year window; fixes SSR and snapshot tests to one day
+  referenceDate?: Date;
+  // Controlled calendar popover; onOpen/onClose are called in uncontrolled mode too
+  open?: boolean;
+  onOpen?: () => void;
+  onClose?: () => void;
+  // Whether a final pick closes the calendar (default: true without time); false waits for ตกลง
+  closeOnSelect?: boolean;
+  // Show a clear (×) button while there is a value
+  clearable?: boolean;
+  // Pattern for the value shown while the field is not focused, e.g. "d MMMM BBBB" (see formatThai in dateUtils)
+  displayFormat?: string;
+  displayFormatOptions?: ThaiFormatOptions;
+  // Called when the validation reason changes; null once the input is valid or empty again
+  onError?: (reason: DateValidationError | null, rawInput: string) => void;
+}
+
+export interface SingleDatePickerProps extends ThaiDatePickerBaseProps {
+  multiple?: false;
   value: string; // AD string: "2026-02-18"
   onChange: (value: string) => void;
-  withTime?: boolean;
+  // Committed value: ตกลง or a closing pick (the calendar edits a draft until then), clear, or leaving an edited input
+  onAccept?: (value: string) => void;
 }
 
-const ThaiDatePicker: React.FC<ThaiDatePickerProps> = ({
-  label,
-  value,
-  onChange,
-  placeholder,
-  disabled = false,
-  withTime = false,
-  InputProps,
-  ...textFieldProps // Spread other TextField props (size, fullWidth, variant, etc.)
-}) => {
-  const [inputValue, setInputValue] = useState('');
-  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+// Multiple mode picks unrelated days (shifts, leave); typing, time and display formats do not apply
+export interface MultipleDatePickerProps
+  extends Omit<
+    ThaiDatePickerBaseProps,
+    | 'withTime'
+    | 'withSeconds'
+    | 'minuteStep'
+    | 'minTime'
+    | 'maxTime'
+    | 'thaiTimeSuffix'
+    | 'valueFormat'
+    | 'displayFormat'
+    | 'displayFormatOptions'
+    | 'onError'
+    | 'allowPartial'
+    | 'showAge'
+    | 'closeOnSelect'
+    | 'variant'
+    | 'desktopModeMediaQuery'
+  > {
+  multiple: true;
+  variant?: TextFieldProps['variant'];
+  value: string[]; // AD dates: ["2026-02-18", "2026-02-20"]
+  onChange: (value: string[]) => void;
+  // Committed dates: ตกลง (the calendar edits a draft until then) or clear
+  onAccept?: (value: string[]) => void;
+}
 
-  // ViewDate tracks the month/year currently shown in the calendar popover
-  const [viewDate, setViewDate] = useState<Date>(new Date());
-  const [viewMode, setViewMode] = useState<'day' | 'month' | 'year'>('day');
-  // Internal state for time selection in the popover
-  const [selectedTime, setSelectedTime] = useState({ hour: 0, minute: 0 });
+export type ThaiDatePickerProps = SingleDatePickerProps | MultipleDatePickerProps;
+
+// Phones and tablets (coarse pointer) get the mobile dialog unless variant says otherwise
+const DESKTOP_MODE_MEDIA_QUERY = '@media (pointer: fine)';
+
+const SingleDatePickerRender: React.ForwardRefRenderFunction<ThaiDatePickerHandle, SingleDatePickerProps> = (
+  {
+    label,
+    value,
+    onChange,
+    onAccept,
+    placeholder,
+    disabled = false,
+    multiple: _multiple, // Kept out of the TextField props
+    withTime = false,
+    withSeconds,
+    minuteStep,
+    minTime,
+    maxTime,
+    thaiTimeSuffix,
+    views = DEFAULT_VIEWS,
+    openTo,
+    timeZone,
+    valueFormat,
+    historicalBE,
+    allowPartial,
+    minDate,
+    maxDate,
+    minYear,
+    maxYear,
+    disablePast = false,
+    disableFuture = false,
+    shouldDisableDate,
+    referenceDate,
+    open,
+    onOpen,
+    onClose,
+    closeOnSelect,
+    clearable = false,
+    showHolidays = false,
+    holidayProvider = thaiHolidayProvider,
+    showLunar = false,
+    highlightedDates,
+    renderDay,
+    presets,
+    presetsLayout = 'chips',
+    variant,
+    desktopModeMediaQuery = DESKTOP_MODE_MEDIA_QUERY,
+    slots = {},
+    slotProps = {},
+    showAge = false,
+    displayFormat,
+    displayFormatOptions,
+    onFocus,
+    onBlur,
+    onKeyDown,
+    onClick,
+    onError,
+    InputProps,
+    ...textFieldProps // Spread other TextField props (size, fullWidth, variant, etc.)
+  },
+  ref
+) => {
+  const { labels } = useDatePickerLocale();
+  const { openPickerIcon: OpenPickerIcon = CalendarMonth, ...calendarSlots } = slots;
+  const {
+    displayValue,
+    placeholder: maskPlaceholder,
+    errorText,
+    age,
+    anchorEl,
+    isCalendarOpen,
+    fieldRef,
+    inputRef,
+    openCalendar,
+    clear,
+    handleOpen,
+    handleClose,
+    handleClear,
+    handleInputChange,
+    handleInputFocus,
+    handleInputBlur,
+    handleInputClick,
+    handleInputKeyDown,
+    handlePaste,
+    calendarProps,
+  } = useThaiDatePicker({
+    value,
+    onChange,
+    withTime,
+    withSeconds,
+    minuteStep,
+    minTime,
+    maxTime,
+    thaiTimeSuffix,
+    views,
+    openTo,
+    timeZone,
+    valueFormat,
+    historicalBE,
+    allowPartial,
+    disabled,
+    minDate,
+    maxDate,
+    minYear,
+    maxYear,
+    disablePast,
+    disableFuture,
+    shouldDisableDate,
+    referenceDate,
+    open,
+    onOpen,
+    onClose,
+    closeOnSelect,
+    onAccept,
+    displayFormat,
+    displayFormatOptions,
+    onError,
+  });
+  const handleInputRef = useForkRef(inputRef, textFieldProps.inputRef);
+  // Rendered desktop-first on the server, like the MUI pickers
+  const isDesktopMedia = useMediaQuery(desktopModeMediaQuery, { defaultMatches: true });
+  const isMobile = variant === 'mobile' || (variant !== 'desktop' && !isDesktopMedia);
+  const fieldVariant = variant === 'mobile' || variant === 'desktop' ? undefined : variant;
+
+  useImperativeHandle(ref, () => ({
+    open: () => openCalendar(),
+    close: handleClose,
+    focus: () => inputRef.current?.focus(),
+    clear,
+  }));
 
-  const defaultPlaceholder = withTime ? 'DD/MM/YYYY HH:mm' : 'DD/MM/YYYY';
-  const effectivePlaceholder = placeholder || defaultPlaceholder;
-  const isCalendarOpen = Boolean(anchorEl);
+  return (
+    <Box sx={{ width: textFieldProps.fullWidth ? '100%' : 'auto' }}>
+      <TextField
+        {...textFieldProps}
+        variant={fieldVariant}
+        ref={fieldRef}
+        inputRef={handleInputRef}
+        label={label}
+        value={displayValue}
+        error={textFieldProps.error ?? Boolean(errorText)}
+        helperText={textFieldProps.helperText ?? (errorText || (showAge && age ? labels.age(age) : undefined))}
+        onFocus={(e) => {
+          handleInputFocus();
+          onFocus?.(e);
+        }}
+        onBlur={(e) => {
+          handleInputBlur();
+          onBlur?.(e);
+        }}
+        onKeyDown={(e) => {
+          // Mobile fields are read-only: Enter or Space opens the dialog instead of editing
+          if (!isMobile) {
+            handleInputKeyDown(e);
+          } else if (e.target instanceof HTMLInputElement && (e.key === 'Enter' || e.key === ' ')) {
+            e.preventDefault();
+            openCalendar();
+          }
+          onKeyDown?.(e);
+        }}
+        onClick={(e) => {
+          if (!isMobile) {
+            handleInputClick(e);
+          } else if (e.target instanceof HTMLInputElement) {
+            openCalendar(); // Adornment buttons open or clear on their own
+          }
+          onClick?.(e);
+        }}
+        onPaste={handlePaste}
+        onChange={handleInputChange}
+        placeholder={placeholder || maskPlaceholder}
+        disabled={disabled}
+        InputProps={{
+          ...InputProps,
+          endAdornment: (
+            <InputAdornment position="end">
+              {clearable && value && !disabled && (
+                <IconButton size="small" onClick={handleClear} edge="end" sx={{ mr: 0.5 }} aria-label={labels.clear}>
+                  <Close fontSize="small" />
+                </IconButton>
+              )}
+              <IconButton
+                size="small"
+                onClick={handleOpen}
+                edge="start"
+                disabled={disabled}
+                color={isCalendarOpen ? 'primary' : 'default'}
+                sx={{ p: 0.5 }}
+                aria-label={labels.openCalendar}
+                aria-haspopup="dialog"
+              >
+                <OpenPickerIcon {...slotProps.openPickerIcon} />
+              </IconButton>
+              {InputProps?.endAdornment}
+            </InputAdornment>
+          ),
+        }}
+        inputProps={{
+          ...textFieldProps.inputProps,
+          readOnly: isMobile || textFieldProps.inputProps?.readOnly,
+          style: { ...textFieldProps.inputProps?.style },
+        }}
+        InputLabelProps={{
+          ...textFieldProps.InputLabelProps,
+          style: { ...textFieldProps.InputLabelProps?.style },
+        }}
+      />
 
-  // Helpers to format based on mode
-  const formatThai = (d: Date | null) => (withTime ? formatThaiDateTime(d) : formatThaiDate(d));
-  const parseThai = (s: string) => (withTime ? parseThaiDateTime(s) : parseThaiDate(s));
-  const formatAD = (d: Date | null) => (withTime ? formatADDateTime(d) : formatADDate(d));
-  const parseAD = (s: string) => (withTime ? parseADDateTime(s) : parseADDate(s));
+      {isMobile ? (
+        <ThaiMobileDialog open={isCalendarOpen} {...calendarProps} />
+      ) : (
+        <DatePickerPopover
+          open={isCalendarOpen}
+          anchorEl={anchorEl}
+          onClose={handleClose}
+          width={presetsLayout === 'list' && presets?.length ? 480 : undefined}
+        >
+          <ThaiCalendar
+            {...calendarProps}
+            showHolidays={showHolidays}
+            holidayProvider={holidayProvider}
+            showLunar={showLunar}
+            highlightedDates={highlightedDates}
+            renderDay={renderDay}
+            presets={presets}
+            presetsLayout={presetsLayout}
+            slots={calendarSlots}
+            slotProps={slotProps}
+          />
+        </DatePickerPopover>
+      )}
+    </Box>
+  );
+};
 
-  // Robust synchronization of external value prop (AD String) to internal string state (Thai String)
+const SingleDatePicker = React.forwardRef(SingleDatePickerRender);
+
+const MultipleDatePickerRender: React.ForwardRefRenderFunction<ThaiDatePickerHandle, MultipleDatePickerProps> = (
+  {
+    label,
+    value,
+    onChange,
+    onAccept,
+    placeholder,
+    disabled = false,
+    multiple: _multiple, // Kept out of the TextField props
+    views = DEFAULT_VIEWS,
+    openTo,
+    timeZone,
+    historicalBE,
+    minDate,
+    maxDate,
+    minYear,
+    maxYear,
+    disablePast = false,
+    disableFuture = false,
+    shouldDisableDate,
+    referenceDate,
+    open,
+    onOpen,
+    onClose,
+    clearable = false,
+    showHolidays = false,
+    holidayProvider = thaiHolidayProvider,
+    showLunar = false,
+    highlightedDates,
+    renderDay,
+    presets,
+    presetsLayout = 'chips',
+    slots = {},
+    slotProps = {},
+    InputProps,
+    ...textFieldProps
+  },
+  ref
+) => {
+  const locale = useDatePickerLocale();
+  const { openPickerIcon: OpenPickerIcon = CalendarMonth, ...calendarSlots } = slots;
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  const [isOpenState, setIsOpenState] = useState(false);
+  // Dates being edited in the popover; null until the calendar changes something. Sent on ตกลง, dropped otherwise
+  const [draftValue, setDraftValue] = useState<string[] | null>(null);
+  const fieldRef = useRef<HTMLDivElement | null>(null);
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const handleInputRef = useForkRef(inputRef, textFieldProps.inputRef);
+  const isCalendarOpen = open ?? isOpenState;
+  const selectedDates = value.map(parseADDate).filter((d): d is Date => d !== null);
+
+  // Opened by the open prop: anchor to the field
   useEffect(() => {
-    // 1. Parse current BE input value to Date (to check if user is currently typing something valid)
-    const currentInputDate = parseThai(inputValue);
-
-    // 2. Parse external AD value prop to Date
-    const propDate = parseAD(value);
-
-    const isSameDate = (d1: Date | null, d2: Date | null) => {
-      if (!d1 && !d2) return true;
-      if (!d1 || !d2) return false;
-      return d1.getTime() === d2.getTime();
-    };
-
-    // 3. If prop date differs from what's currently in the input (parsed), update input.
-    if (!isSameDate(propDate, currentInputDate)) {
-      if (propDate) {
-        setInputValue(formatThai(propDate));
-        setViewDate(propDate);
-        setSelectedTime({ hour: propDate.getHours(), minute: propDate.getMinutes() });
-      } else {
-        // Only clear input if the external value is empty AND the current input isn't a partial/valid date
-        // This allows clearing from parent, but prevents fighting with user while they type valid chars
-        if (!value) {
-          setInputValue('');
-        }
-      }
-    }
-  }, [value, withTime]); // eslint-disable-line react-hooks/exhaustive-deps
-
-  const handleOpen = (event: React.MouseEvent<HTMLElement>) => {
-    setViewMode('day');
-    if (disabled) return;
-    setAnchorEl(event.currentTarget.parentElement); // Anchor to the input container
-    const propDate = parseAD(value);
-    if (propDate) {
-      setViewDate(propDate);
-      setSelectedTime({ hour: propDate.getHours(), minute: propDate.getMinutes() });
-    } else {
-      const now = new Date();
-      setViewDate(now);
-      setSelectedTime({ hour: now.getHours(), minute: now.getMinutes() });
-    }
-  };
-
-  const handleClose = () => {
-    setAnchorEl(null);
-    // On blur/close, revert input to match the valid AD value (if it exists)
-    // This fixes partial inputs (e.g. user typed "01/01/" and clicked away)
-    const propDate = parseAD(value);
-    if (propDate) {
-      setInputValue(formatThai(propDate));
-    } else if (!value) {
-      setInputValue('');
-    }
+    if (isCalendarOpen && !anchorEl && fieldRef.current) setAnchorEl(fieldRef.current);
+  }, [isCalendarOpen, anchorEl]);
+
+  const setOpen = (nextOpen: boolean) => {
+    if (nextOpen === isCalendarOpen) return;
+    setIsOpenState(nextOpen);
+    if (nextOpen) onOpen?.();
+    else onClose?.();
   };
 
-  // Handle Input Change (User types BE date)
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    let raw = e.target.value.replace(/[^0-9]/g, ''); // Strip non-digits
-
-    // Masking logic
-    const maxDigits = withTime ? 12 : 8;
-    if (raw.length > maxDigits) raw = raw.slice(0, maxDigits);
-
-    let formatted = '';
-    if (raw.length > 0) formatted += raw.slice(0, 2);
-    if (raw.length >= 3) formatted += '/' + raw.slice(2, 4);
-    if (raw.length >= 5) formatted += '/' + raw.slice(4, 8);
-
-    if (withTime) {
-      if (raw.length >= 9) formatted += ' ' + raw.slice(8, 10);
-      if (raw.length >= 11) formatted += ':' + raw.slice(10, 12);
-    }
-
-    setInputValue(formatted);
-
-    const expectedLength = withTime ? 16 : 10;
-
-    if (formatted.length === expectedLength) {
-      // User typed full BE date. Parse it.
-      const parsedDate = parseThai(formatted);
-      if (parsedDate) {
-        // Convert Date -> AD String -> Parent
-        const adString = formatAD(parsedDate);
-        onChange(adString);
-
-        setViewDate(parsedDate);
-        setSelectedTime({ hour: parsedDate.getHours(), minute: parsedDate.getMinutes() });
-      } else {
-        onChange(''); // Invalid date
-      }
-    } else if (raw.length === 0) {
-      onChange(''); // Cleared
-    }
-  };
-
-  // Calendar Navigation
-  const handlePrevMonth = () => {
-    setViewDate(new Date(viewDate.getFullYear(), viewDate.getMonth() - 1, 1));
-  };
-
-  const handleNextMonth = () => {
-    setViewDate(new Date(viewDate.getFullYear(), viewDate.getMonth() + 1, 1));
-  };
-
-  const handlePrev = () => {
-    if (viewMode === 'day') {
-      setViewDate(new Date(viewDate.getFullYear(), viewDate.getMonth() - 1, 1));
-    } else if (viewMode === 'month') {
-      setViewDate(new Date(viewDate.getFullYear() - 1, viewDate.getMonth(), 1));
-    } else {
-      setViewDate(new Date(viewDate.getFullYear() - 12, viewDate.getMonth(), 1));
-    }
-  };
-
-  const handleNext = () => {
-    if (viewMode === 'day') {
-      setViewDate(new Date(viewDate.getFullYear(), viewDate.getMonth() + 1, 1));
-    } else if (viewMode === 'month') {
-      setViewDate(new Date(viewDate.getFullYear() + 1, viewDate.getMonth(), 1));
-    } else {
-      setViewDate(new Date(viewDate.getFullYear() + 12, viewDate.getMonth(), 1));
-    }
+  const openCalendar = (anchor: HTMLElement | null) => {
+    if (disabled) return;
+    setAnchorEl(anchor);
+    setDraftValue(null);
+    setOpen(true);
   };
 
-  const handleDateSelect = (day: number) => {
-    const hour = withTime ? selectedTime.hour : 0;
-    const minute = withTime ? selectedTime.minute : 0;
-    const newDate = new Date(viewDate.getFullYear(), viewDate.getMonth(), day, hour, minute);
+  const handleOpen = (event: React.MouseEvent<HTMLElement>) => openCalendar(event.currentTarget);
 
-    // Update value to AD String
-    const adString = formatAD(newDate);
-    onChange(adString);
-
-    // Update display to BE String
-    setInputValue(formatThai(newDate));
-
-    if (!withTime) {
-      handleClose();
-    }
+  const handleClose = () => {
+    setDraftValue(null);
+    setOpen(false);
   };
 
-  const handleTimeChange = (type: 'hour' | 'minute', val: number) => {
-    const newTime = { ...selectedTime, [type]: val };
-    setSelectedTime(newTime);
-
-    const propDate = parseAD(value);
-    if (propDate) {
-      const newDate = new Date(propDate);
-      newDate.setHours(newTime.hour);
-      newDate.setMinutes(newTime.minute);
-
-      const adString = formatAD(newDate);
-      onChange(adString);
-      setInputValue(formatThai(newDate));
+  const handleAccept = () => {
+    if (draftValue !== null && draftValue.join() !== value.join()) {
+      onChange(draftValue);
+      onAccept?.(draftValue);
     }
+    handleClose();
   };
 
-  const handleClear = (e: React.MouseEvent) => {
-    e.stopPropagation();
-    onChange('');
-    setInputValue('');
-    setSelectedTime({ hour: 0, minute: 0 });
-  };
-
-  const handleToday = () => {
-    const now = new Date();
-    const adString = formatAD(now);
-    onChange(adString);
-    setInputValue(formatThai(now));
-
-    setViewDate(now);
-    setSelectedTime({ hour: now.getHours(), minute: now.getMinutes() });
-    if (!withTime) handleClose();
+  const clear = () => {
+    onChange([]);
+    if (value.length > 0) onAccept?.([]);
   };
 
-  // Calendar Grid Generation
-  const calendarGrid = useMemo(() => {
-    const year = viewDate.getFullYear();
-    const month = viewDate.getMonth();
-    const daysInMonth = getDaysInMonth(year, month);
-    const firstDay = getFirstDayOfMonth(year, month);
-
-    const days = [];
-    for (let i = 0; i < firstDay; i++) {
-      days.push(null);
-    }
-    for (let i = 1; i <= daysInMonth; i++) {
-      days.push(i);
-    }
-    return days;
-  }, [viewDate]);
-
-  const currentYearBE = viewDate.getFullYear() + BE_OFFSET;
-  const hours = Array.from({ length: 24 }, (_, i) => i);
-  const minutes = Array.from({ length: 60 }, (_, i) => i);
-
-  // Check if current view matches the selected value
-  const propDate = parseAD(value);
+  useImperativeHandle(ref, () => ({
+    open: () => openCalendar(fieldRef.current),
+    close: handleClose,
+    focus: () => inputRef.current?.focus(),
+    clear,
+  }));
 
   return (
     <Box sx={{ width: textFieldProps.fullWidth ? '100%' : 'auto' }}>
       <TextField
         {...textFieldProps}
+        ref={fieldRef}
+        inputRef={handleInputRef}
         label={label}
-        value={inputValue}
-        onChange={handleInputChange}
-        placeholder={effectivePlaceholder}
+        value={formatThaiDateList(selectedDates, {
+          historical: historicalBE,
+          era: locale.eraDisplay === 'AD' ? 'AD' : 'BE',
+          monthNamesShort: locale.monthsShort,
+          formatCount: locale.labels.dateCount,
+        })}
+        placeholder={placeholder || locale.labels.multiplePlaceholder}
         disabled={disabled}
+        onClick={handleOpen}
         InputProps={{
           ...InputProps,
+          readOnly: true,
           endAdornment: (
             <InputAdornment position="end">
-              {/* {value && !disabled && (
-                <IconButton size="small" onClick={handleClear} edge="end" sx={{ mr: 0.5 }}>
+              {clearable && value.length > 0 && !disabled && (
+                <IconButton
+                  size="small"
+                  onClick={(e) => {
+                    e.stopPropagation(); // Keep the field's click from opening the calendar
+                    clear();
+                  }}
+                  edge="end"
+                  sx={{ mr: 0.5 }}
+                  aria-label={locale.labels.clear}
+                >
                   <Close fontSize="small" />
                 </IconButton>
-              )} */}
+              )}
               <IconButton
                 size="small"
-                onClick={handleOpen}
                 edge="start"
                 disabled={disabled}
                 color={isCalendarOpen ? 'primary' : 'default'}
                 sx={{ p: 0.5 }}
+                aria-label={locale.labels.openCalendar}
+                aria-haspopup="dialog"
               >
-                <CalendarMonth />
+                <OpenPickerIcon {...slotProps.openPickerIcon} />
               </IconButton>
               {InputProps?.endAdornment}
             </InputAdornment>
           ),
         }}
-        inputProps={{
-          ...textFieldProps.inputProps,
-          maxLength: withTime ? 16 : 10,
-          style: { ...textFieldProps.inputProps?.style },
-        }}
-        InputLabelProps={{
-          ...textFieldProps.InputLabelProps,
-          style: { ...textFieldProps.InputLabelProps?.style },
-        }}
       />
 
-      <Popover
+      <DatePickerPopover
         open={isCalendarOpen}
         anchorEl={anchorEl}
         onClose={handleClose}
-        anchorOrigin={{
-          vertical: 'bottom',
-          horizontal: 'left',
-        }}
-        transformOrigin={{
-          vertical: 'top',
-          horizontal: 'left',
-        }}
-        PaperProps={{
-          sx: {
-            mt: 1,
-            p: 2,
-            width: 320,
-            borderRadius: 2,
-          },
-        }}
+        width={presetsLayout === 'list' && presets?.length ? 480 : undefined}
       >
-        {/* Header */}
-        <Box display="flex" justifyContent="space-between" alignItems="center" mb={2}>
-          <IconButton onClick={handlePrev} size="small">
-            <ChevronLeft />
-          </IconButton>
-          <Box textAlign="center">
-            <Typography
-              variant="subtitle1"
-              fontWeight="bold"
-              sx={{ cursor: 'pointer' }}
-              onClick={() => setViewMode('month')}
-            >
-              {THAI_MONTHS[viewDate.getMonth()]}
-            </Typography>
-
-            <Typography
-              variant="caption"
-              color="text.secondary"
-              sx={{ cursor: 'pointer' }}
-              onClick={() => setViewMode('year')}
-            >
-              พ.ศ. {currentYearBE}
-            </Typography>
-          </Box>
-          <IconButton onClick={handleNext} size="small">
-            <ChevronRight />
-          </IconButton>
-        </Box>
-        {viewMode === 'year' && (
-          <Grid container spacing={1} columns={4}>
-            {Array.from({ length: 12 }, (_, i) => {
-              const startYear = currentYearBE - 6;
-              const year = startYear + i;
-              return (
-                <Grid xs={1} key={year}>
-                  <Button
-                    fullWidth
-                    onClick={() => {
-                      setViewDate(new Date(year - BE_OFFSET, viewDate.getMonth(), 1));
-                      setViewMode('month');
-                    }}
-                  >
-                    {year}
-                  </Button>
-                </Grid>
-              );
-            })}
-          </Grid>
-        )}
-
-        {viewMode === 'month' && (
-          <Grid container spacing={1} columns={3}>
-            {THAI_MONTHS.map((m, i) => (
-              <Grid xs={1} key={i}>
-                <Button
-                  fullWidth
-                  onClick={() => {
-                    setViewDate(new Date(viewDate.getFullYear(), i, 1));
-                    setViewMode('day');
-                  }}
-                >
-                  {m}
-                </Button>
-              </Grid>
-            ))}
-          </Grid>
-        )}
-        {viewMode === 'day' && (
-          <>
-            {/* Week Days */}
-            <Grid container spacing={0.5} mb={1} columns={7}>
-              {['อา', 'จ', 'อ', 'พ', 'พฤ', 'ศ', 'ส'].map((day, i) => (
-                <Grid xs={1} key={i} textAlign={'center'}>
-                  <Typography align="center" variant="caption" color="text.secondary" fontWeight="bold">
-                    {day}
-                  </Typography>
-                </Grid>
-              ))}
-            </Grid>
-            <Grid container spacing={0.5} columns={7}>
-              {calendarGrid.map((day, index) => {
-                if (day === null) {
-                  return <Grid xs={1} key={`empty-${index}`} sx={{ height: 36 }} />;
-                }
-
-                const isSelected =
-                  propDate &&
-                  propDate.getDate() === day &&
-                  propDate.getMonth() === viewDate.getMonth() &&
-                  propDate.getFullYear() === viewDate.getFullYear();
-
-                const today = new Date();
-                const isToday =
-                  today.getDate() === day &&
-                  today.getMonth() === viewDate.getMonth() &&
-                  today.getFullYear() === viewDate.getFullYear();
-
-                return (
-                  <Grid xs={1} key={`day-${day}`}>
-                    <Button
-                      disableElevation
-                      fullWidth
-                      variant={isSelected ? 'contained' : isToday ? 'outlined' : 'text'}
-                      color={isSelected ? 'primary' : 'inherit'}
-                      sx={{
-                        minWidth: 0,
-                        p: 0,
-                        height: 36,
-                        borderRadius: 2,
-                        fontWeight: isSelected || isToday ? 'bold' : 'normal',
-                        borderColor: isToday && !isSelected ? 'primary.main' : undefined,
-                        color: isToday && !isSelected ? 'primary.main' : undefined,
-                      }}
-                      onClick={() => handleDateSelect(day)}
-                    >
-                      {day}
-                    </Button>
-                  </Grid>
-                );
-              })}
-            </Grid>
-          </>
-        )}
-
-        {/* Time Selection */}
-        {withTime && (
-          <Box mt={2}>
-            <Divider sx={{ mb: 2 }} />
-            <Box display="flex" alignItems="center" justifyContent="space-between" mb={1}>
-              <Box display="flex" alignItems="center" gap={1}>
-                <AccessTime fontSize="small" color="action" />
-                <Typography variant="body2">เวลา (Time)</Typography>
-              </Box>
-            </Box>
-            <Box display="flex" justifyContent="center" alignItems="center" gap={1}>
-              <FormControl size="small" sx={{ minWidth: 70 }}>
-                <Select
-                  value={selectedTime.hour}
-                  onChange={(e) => handleTimeChange('hour', Number(e.target.value))}
-                  MenuProps={{ PaperProps: { sx: { maxHeight: 200 } } }}
-                >
-                  {hours.map((h) => (
-                    <MenuItem key={h} value={h}>
-                      {String(h).padStart(2, '0')}
-                    </MenuItem>
-                  ))}
-                </Select>
-              </FormControl>
-              <Typography>:</Typography>
-              <FormControl size="small" sx={{ minWidth: 70 }}>
-                <Select
-                  value={selectedTime.minute}
-                  onChange={(e) => handleTimeChange('minute', Number(e.target.value))}
-                  MenuProps={{ PaperProps: { sx: { maxHeight: 200 } } }}
-                >
-                  {minutes.map((m) => (
-                    <MenuItem key={m} value={m}>
-                      {String(m).padStart(2, '0')}
-                    </MenuItem>
-                  ))}
-                </Select>
-              </FormControl>
-            </Box>
-          </Box>
-        )}
-
-        {/* Footer */}
-        <Box mt={2} pt={1} borderTop="1px solid #eee" display="flex" justifyContent="space-between" alignItems="center">
-          <Button size="small" onClick={handleToday}>
-            วันนี้ (Today)
-          </Button>
-
-          {withTime ? (
-            <Button size="small" variant="contained" onClick={handleClose} startIcon={<Check />}>
-              ตกลง
-            </Button>
-          ) : (
-            <Typography variant="caption" color="text.secondary">
-              ค.ศ. {viewDate.getFullYear()}
-            </Typography>
-          )}
-        </Box>
-      </Popover>
+        <ThaiCalendar
+          multiple
+          value={draftValue ?? value}
+          onChange={setDraftValue}
+          views={views}
+          openTo={openTo}
+          timeZone={timeZone}
+          historicalBE={historicalBE}
+          minDate={minDate}
+          maxDate={maxDate}
+          minYear={minYear}
+          maxYear={maxYear}
+          disablePast={disablePast}
+          disableFuture={disableFuture}
+          shouldDisableDate={shouldDisableDate}
+          referenceDate={referenceDate}
+          showHolidays={showHolidays}
+          holidayProvider={holidayProvider}
+          showLunar={showLunar}
+          highlightedDates={highlightedDates}
+          renderDay={renderDay}
+          presets={presets}
+          presetsLayout={presetsLayout}
+          slots={calendarSlots}
+          slotProps={slotProps}
+          onSelectionComplete={handleAccept}
+          onCancel={handleClose}
+        />
+      </DatePickerPopover>
     </Box>
   );
 };
 
+const MultipleDatePicker = React.forwardRef(MultipleDatePickerRender);
+
+const ThaiDatePicker = React.forwardRef<ThaiDatePickerHandle, ThaiDatePickerProps>((props, ref) => {
+  if (props.multiple) return <MultipleDatePicker {...props} ref={ref} />;
+  return <SingleDatePicker {...props} ref={ref} />;
+});
+
 export default ThaiDatePicker;
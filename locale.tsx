@@ -0,0 +1,282 @@
+import React, { createContext, useContext, useMemo } from 'react';
+
+import {
+  THAI_MONTHS,
+  THAI_MONTHS_SHORT,
+  THAI_DAYS,
+  THAI_DAYS_SHORT,
+  toBuddhistYear,
+  ThaiDuration,
+  formatThaiDuration,
+} from './dateUtils';
+import { ViewMode } from './pickerUtils';
+import { DatePresetKey } from './presets';
+
+// Which year the pickers show: BE only, AD only, or BE with the AD year alongside
+export type EraDisplay = 'BE' | 'AD' | 'both';
+
+export interface DatePickerLabels {
+  openCalendar: string;
+  openTimePicker: string;
+  chooseDate: string;
+  chooseMonth: string;
+  chooseYear: string;
+  previous: Record<ViewMode, string>;
+  next: Record<ViewMode, string>;
+  previousCentury: string;
+  nextCentury: string;
+  today: Record<ViewMode, string>;
+  // Built-in quick picks of the presets prop
+  presets: Record<DatePresetKey, string>;
+  presetsLabel: string;
+  time: string;
+  timeUnits: { hour: string; minute: string; second: string };
+  // Wheel columns of the mobile picker
+  dateUnits: { day: string; month: string; year: string };
+  ok: string;
+  cancel: string;
+  selectedCount: (count: number) => string;
+  dateCount: (count: number) => string;
+  multiplePlaceholder: string;
+  rangeStartPlaceholder: string;
+  rangeEndPrompt: (start: string) => string;
+  clear: string;
+  // Partial picks (allowPartial): the shown month with an unknown day, the shown year with an unknown month
+  unknownDay: string;
+  unknownMonth: string;
+  holyDay: string;
+  // Helper text of showAge ("อายุ 35 ปี 2 เดือน 10 วัน")
+  age: (age: ThaiDuration) => string;
+  // Screen reader label of a day cell
+  dayLabel: (weekday: string, day: number, month: string, year: number) => string;
+  // Helper texts for rejected input; the limit arrives already formatted
+  errors: {
+    invalidDate: string;
+    invalidTime: string;
+    outOfRange: string;
+    shouldDisableDate: string;
+    minDate: (limit: string) => string;
+    maxDate: (limit: string) => string;
+    minTime: (limit: string) => string;
+    maxTime: (limit: string) => string;
+    minuteStep: (step: number) => string;
+  };
+}
+
+export interface DatePickerLocale {
+  months: string[];
+  monthsShort: string[];
+  // Sunday first, same index as Date.getDay()
+  weekdays: string[];
+  weekdaysShort: string[];
+  firstDayOfWeek: number; // 0 = Sunday, 1 = Monday
+  eraDisplay: EraDisplay;
+  // Year with its era marker, e.g. "พ.ศ. 2569" or "2569 BE"
+  eras: { BE: (year: number) => string; AD: (year: number) => string };
+  labels: DatePickerLabels;
+}
+
+// What a provider may override; unspecified fields come from the surrounding locale
+export type DatePickerLocaleOverrides = Partial<Omit<DatePickerLocale, 'labels'>> & {
+  labels?: Partial<Omit<DatePickerLabels, 'errors'>> & { errors?: Partial<DatePickerLabels['errors']> };
+};
+
+export const thaiLocale: DatePickerLocale = {
+  months: THAI_MONTHS,
+  monthsShort: THAI_MONTHS_SHORT,
+  weekdays: THAI_DAYS,
+  weekdaysShort: THAI_DAYS_SHORT,
+  firstDayOfWeek: 0,
+  eraDisplay: 'both',
+  eras: { BE: (year) => `พ.ศ. ${year}`, AD: (year) => `ค.ศ. ${year}` },
+  labels: {
+    openCalendar: 'เปิดปฏิทิน',
+    openTimePicker: 'เลือกเวลา',
+    chooseDate: 'เลือกวันที่',
+    chooseMonth: 'เลือกเดือน',
+    chooseYear: 'เลือกปี',
+    previous: { day: 'เดือนก่อนหน้า', month: 'ปีก่อนหน้า', year: 'ช่วงปีก่อนหน้า' },
+    next: { day: 'เดือนถัดไป', month: 'ปีถัดไป', year: 'ช่วงปีถัดไป' },
+    previousCentury: '100 ปีก่อนหน้า',
+    nextCentury: '100 ปีถัดไป',
+    today: { day: 'วันนี้ (Today)', month: 'เดือนนี้ (This month)', year: 'ปีนี้ (This year)' },
+    presets: {
+      today: 'วันนี้',
+      yesterday: 'เมื่อวาน',
+      tomorrow: 'พรุ่งนี้',
+      startOfMonth: 'ต้นเดือนนี้',
+      endOfMonth: 'สิ้นเดือนนี้',
+      in7Days: '+7 วัน',
+      in30Days: '+30 วัน',
+      startOfFiscalYear: 'ต้นปีงบประมาณ',
+      endOfFiscalYear: 'สิ้นปีงบประมาณ',
+      sameDayNextYear: 'วันเดียวกันปีหน้า',
+    },
+    presetsLabel: 'เลือกด่วน',
+    time: 'เวลา (Time)',
+    timeUnits: { hour: 'ชั่วโมง', minute: 'นาที', second: 'วินาที' },
+    dateUnits: { day: 'วัน', month: 'เดือน', year: 'ปี' },
+    ok: 'ตกลง',
+    cancel: 'ยกเลิก',
+    selectedCount: (count) => `เลือกแล้ว ${count} วัน`,
+    dateCount: (count) => `${count} วัน`,
+    multiplePlaceholder: 'เลือกได้หลายวัน',
+    rangeStartPlaceholder: 'เลือกวันเริ่มต้น',
+    rangeEndPrompt: (start) => `ตั้งแต่ ${start} – เลือกวันสิ้นสุด`,
+    clear: 'ล้าง (Clear)',
+    unknownDay: 'ไม่ทราบวันที่',
+    unknownMonth: 'ไม่ทราบเดือน',
+    holyDay: 'วันพระ',
+    age: (age) => `อายุ ${formatThaiDuration(age)}`,
+    dayLabel: (weekday, day, month, year) => `วัน${weekday}ที่ ${day} ${month} ${year}`,
+    errors: {
+      invalidDate: 'วันที่ไม่ถูกต้อง',
+      invalidTime: 'เวลาไม่ถูกต้อง',
+      outOfRange: 'ปีอยู่นอกช่วงที่รองรับ',
+      shouldDisableDate: 'ไม่สามารถเลือกวันที่นี้ได้',
+      minDate: (limit) => `ต้องไม่ก่อน ${limit}`,
+      maxDate: (limit) => `ต้องไม่หลัง ${limit}`,
+      minTime: (limit) => `ต้องไม่ก่อน ${limit}`,
+      maxTime: (limit) => `ต้องไม่หลัง ${limit}`,
+      minuteStep: (step) => `นาทีต้องเป็นช่วงละ ${step} นาที`,
+    },
+  },
+};
+
+// English UI that still shows BE years; switch eraDisplay to 'AD' or 'both' as needed
+export const englishLocale: DatePickerLocale = {
+  months: [
+    'January', 'February', 'March', 'April', 'May', 'June',
+    'July', 'August', 'September', 'October', 'November', 'December',
+  ],
+  monthsShort: ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'],
+  weekdays: ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'],
+  weekdaysShort: ['Su', 'Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa'],
+  firstDayOfWeek: 0,
+  eraDisplay: 'BE',
+  eras: { BE: (year) => `${year} BE`, AD: (year) => `${year} AD` },
+  labels: {
+    openCalendar: 'Open calendar',
+    openTimePicker: 'Choose time',
+    chooseDate: 'Choose date',
+    chooseMonth: 'Choose month',
+    chooseYear: 'Choose year',
+    previous: { day: 'Previous month', month: 'Previous year', year: 'Previous years' },
+    next: { day: 'Next month', month: 'Next year', year: 'Next years' },
+    previousCentury: 'Previous 100 years',
+    nextCentury: 'Next 100 years',
+    today: { day: 'Today', month: 'This month', year: 'This year' },
+    presets: {
+      today: 'Today',
+      yesterday: 'Yesterday',
+      tomorrow: 'Tomorrow',
+      startOfMonth: 'Start of month',
+      endOfMonth: 'End of month',
+      in7Days: 'In 7 days',
+      in30Days: 'In 30 days',
+      startOfFiscalYear: 'Start of fiscal year',
+      endOfFiscalYear: 'End of fiscal year',
+      sameDayNextYear: 'Same day next year',
+    },
+    presetsLabel: 'Quick picks',
+    time: 'Time',
+    timeUnits: { hour: 'Hour', minute: 'Minute', second: 'Second' },
+    dateUnits: { day: 'Day', month: 'Month', year: 'Year' },
+    ok: 'OK',
+    cancel: 'Cancel',
+    selectedCount: (count) => `${count} selected`,
+    dateCount: (count) => `${count} ${count === 1 ? 'day' : 'days'}`,
+    multiplePlaceholder: 'Select one or more days',
+    rangeStartPlaceholder: 'Select start date',
+    rangeEndPrompt: (start) => `From ${start} – select end date`,
+    clear: 'Clear',
+    unknownDay: 'Day unknown',
+    unknownMonth: 'Month unknown',
+    holyDay: 'Buddhist holy day',
+    age: ({ years, months, days }) => {
+      const plural = (count: number, unit: string) => `${count} ${unit}${count === 1 ? '' : 's'}`;
+      const parts = [
+        years ? plural(years, 'year') : '',
+        months ? plural(months, 'month') : '',
+        days ? plural(days, 'day') : '',
+      ].filter(Boolean);
+      return `Age: ${parts.length ? parts.join(' ') : '0 days'}`;
+    },
+    dayLabel: (weekday, day, month, year) => `${weekday}, ${day} ${month} ${year}`,
+    errors: {
+      invalidDate: 'Invalid date',
+      invalidTime: 'Invalid time',
+      outOfRange: 'Year is outside the supported range',
+      shouldDisableDate: 'This date cannot be selected',
+      minDate: (limit) => `Must not be before ${limit}`,
+      maxDate: (limit) => `Must not be after ${limit}`,
+      minTime: (limit) => `Must not be before ${limit}`,
+      maxTime: (limit) => `Must not be after ${limit}`,
+      minuteStep: (step) => `Minutes must be in steps of ${step}`,
+    },
+  },
+};
+
+const DatePickerLocaleContext = createContext<DatePickerLocale>(thaiLocale);
+
+/**
+ * Locale of the nearest DatePickerLocaleProvider (Thai when there is none)
+ */
+export const useDatePickerLocale = (): DatePickerLocale => useContext(DatePickerLocaleContext);
+
+interface DatePickerLocaleProviderProps {
+  locale: DatePickerLocaleOverrides;
+  children?: React.ReactNode;
+}
+
+// Providers nest: each one overrides only the fields it sets, e.g. { firstDayOfWeek: 1 } for Monday-first weeks
+export const DatePickerLocaleProvider: React.FC<DatePickerLocaleProviderProps> = ({ locale, children }) => {
+  const parent = useDatePickerLocale();
+  const value = useMemo<DatePickerLocale>(
+    () => ({
+      ...parent,
+      ...locale,
+      labels: {
+        ...parent.labels,
+        ...locale.labels,
+        errors: { ...parent.labels.errors, ...locale.labels?.errors },
+      },
+    }),
+    [parent, locale]
+  );
+  return <DatePickerLocaleContext.Provider value={value}>{children}</DatePickerLocaleContext.Provider>;
+};
+
+/**
+ * Year number in the locale's main era: AD for eraDisplay 'AD', otherwise BE (historical offset optional)
+ */
+export const getLocaleYear = (date: Date, locale: DatePickerLocale, historical: boolean = false): number => {
+  return locale.eraDisplay === 'AD' ? date.getFullYear() : toBuddhistYear(date, historical);
+};
+
+/**
+ * Year with its era marker in the locale's main era ("พ.ศ. 2569", "2569 BE", "2026 AD")
+ */
+export const formatLocaleYear = (date: Date, locale: DatePickerLocale, historical: boolean = false): string => {
+  const year = getLocaleYear(date, locale, historical);
+  return locale.eraDisplay === 'AD' ? locale.eras.AD(year) : locale.eras.BE(year);
+};
+
+/**
+ * Screen reader label of a day ("วันพุธที่ 18 กุมภาพันธ์ 2569", "Wednesday, 18 February 2569")
+ */
+export const formatLocaleDateLabel = (date: Date, locale: DatePickerLocale, historical: boolean = false): string => {
+  return locale.labels.dayLabel(
+    locale.weekdays[date.getDay()],
+    date.getDate(),
+    locale.months[date.getMonth()],
+    getLocaleYear(date, locale, historical)
+  );
+};
+
+/**
+ * Weekday indexes (0 = Sunday) in display order for the locale's first day of week
+ */
+export const getWeekdayOrder = (locale: DatePickerLocale): number[] => {
+  return Array.from({ length: 7 }, (_, i) => (locale.firstDayOfWeek + i) % 7);
+};
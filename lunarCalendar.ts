@@ -0,0 +1,174 @@
+import { BE_OFFSET, toThaiDigits } from './dateUtils';
+
+// Thai lunar calendar (จันทรคติไทย) computed with the Suriyayatra arithmetic, no lookup tables or network calls.
+// A lunar year starts at เดือนอ้าย (around December) and is named after the solar year of its Songkran.
+// Months alternate 29 (odd) / 30 (even) days; อธิกวาร years give เดือน ๗ a 30th day
+// and อธิกมาส years repeat เดือน ๘ (เดือน ๘๘) with 30 days.
+
+export type ThaiLunarYearType = "normal" | "athikawan" | "athikamat";
+
+export interface ThaiLunarDate {
+  yearBE: number; // Lunar year, e.g. 2569 for the year running from about December 2025
+  month: number; // 1 = เดือนอ้าย, 2 = เดือนยี่, ... 12
+  isLeapMonth: boolean; // The repeated เดือน ๘ (๘๘) of an อธิกมาส year
+  isWaxing: boolean; // ข้างขึ้น (true) or ข้างแรม (false)
+  day: number; // ค่ำ: 1-15 while waxing, 1-14 or 1-15 while waning
+  monthLength: number; // 29 or 30
+  isHolyDay: boolean; // วันพระ: ขึ้น ๘, ขึ้น ๑๕, แรม ๘ and the last day of the month
+  yearType: ThaiLunarYearType;
+}
+
+// ขึ้น ๑ ค่ำ เดือนอ้าย of lunar year 2567, the starting point for walking to other years
+const ANCHOR_YEAR_AD = 2024;
+const ANCHOR_START = Date.UTC(2023, 11, 13) / 86400000;
+
+const YEAR_LENGTHS: Record<ThaiLunarYearType, number> = {
+  normal: 354,
+  athikawan: 355,
+  athikamat: 384,
+};
+
+// Suriyayatra values at Songkran of Chula Sakarat year (AD - 638)
+const getSuriyayatra = (yearAD: number) => {
+  const year = yearAD - 638;
+  const total = year * 292207 + 499;
+  const horakhun = Math.floor(total / 800) + 1;
+  return {
+    kammacapon: 800 - (total % 800),
+    avoman: (horakhun * 11 + 650) % 692,
+    tithi: (horakhun + Math.floor((horakhun * 11 + 650) / 692)) % 30,
+  };
+};
+
+const isAthikamatYear = (yearAD: number): boolean => {
+  const { tithi } = getSuriyayatra(yearAD);
+  return tithi >= 25 || tithi <= 5;
+};
+
+// Small avoman means the calendar has fallen a day behind the moon (limit is 126 in a solar leap year)
+const needsExtraDay = (yearAD: number): boolean => {
+  const { kammacapon, avoman } = getSuriyayatra(yearAD);
+  // 137 followed by 0 is the same lag seen twice; the day belongs to the following year
+  if (avoman === 137 && getSuriyayatra(yearAD + 1).avoman === 0) return false;
+  return avoman <= (kammacapon <= 207 ? 126 : 137);
+};
+
+/**
+ * Year type of the lunar year whose Songkran falls in the given AD year.
+ * A year cannot have both extras, so an อธิกวาร due in an อธิกมาส year moves to the next year.
+ */
+export const getThaiLunarYearType = (yearAD: number): ThaiLunarYearType => {
+  if (isAthikamatYear(yearAD)) return "athikamat";
+  if (needsExtraDay(yearAD) || (isAthikamatYear(yearAD - 1) && needsExtraDay(yearAD - 1))) return "athikawan";
+  return "normal";
+};
+
+const yearStartCache = new Map<number, number>([[ANCHOR_YEAR_AD, ANCHOR_START]]);
+
+// Day number (days since 1970-01-01) of ขึ้น ๑ ค่ำ เดือนอ้าย
+const getYearStart = (yearAD: number): number => {
+  const cached = yearStartCache.get(yearAD);
+  if (cached !== undefined) return cached;
+  const start =
+    yearAD > ANCHOR_YEAR_AD
+      ? getYearStart(yearAD - 1) + YEAR_LENGTHS[getThaiLunarYearType(yearAD - 1)]
+      : getYearStart(yearAD + 1) - YEAR_LENGTHS[getThaiLunarYearType(yearAD)];
+  yearStartCache.set(yearAD, start);
+  return start;
+};
+
+/**
+ * Months of a lunar year in order, with lengths
+ */
+export const getThaiLunarMonths = (
+  yearAD: number
+): { month: number; isLeapMonth: boolean; length: number }[] => {
+  const yearType = getThaiLunarYearType(yearAD);
+  const months = [];
+  for (let month = 1; month <= 12; month++) {
+    const length = month % 2 === 0 || (month === 7 && yearType === "athikawan") ? 30 : 29;
+    months.push({ month, isLeapMonth: false, length });
+    if (month === 8 && yearType === "athikamat") {
+      months.push({ month, isLeapMonth: true, length: 30 });
+    }
+  }
+  return months;
+};
+
+/**
+ * Converts a solar date to its Thai lunar date (only the calendar day is used)
+ */
+export const getThaiLunarDate = (date: Date): ThaiLunarDate => {
+  const dayNumber = Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / 86400000;
+  // เดือนอ้าย starts between late November and early January
+  let yearAD = date.getFullYear() + 1;
+  while (dayNumber < getYearStart(yearAD)) yearAD--;
+
+  let offset = dayNumber - getYearStart(yearAD);
+  for (const { month, isLeapMonth, length } of getThaiLunarMonths(yearAD)) {
+    if (offset < length) {
+      const isWaxing = offset < 15;
+      const day = isWaxing ? offset + 1 : offset - 14;
+      return {
+        yearBE: yearAD + BE_OFFSET,
+        month,
+        isLeapMonth,
+        isWaxing,
+        day,
+        monthLength: length,
+        isHolyDay: day === 8 || (isWaxing && day === 15) || offset === length - 1,
+        yearType: getThaiLunarYearType(yearAD),
+      };
+    }
+    offset -= length;
+  }
+  // Unreachable: the next year's start bounds the walk
+  throw new Error("Lunar month not found");
+};
+
+/**
+ * Finds the solar date of a lunar day, e.g. วันมาฆบูชา = ขึ้น ๑๕ ค่ำ เดือน ๓ (เดือน ๔ in อธิกมาส years).
+ * Returns null when the year has no such month or day.
+ */
+export const fromThaiLunarDate = (
+  yearBE: number,
+  month: number,
+  isWaxing: boolean,
+  day: number,
+  isLeapMonth: boolean = false
+): Date | null => {
+  const yearAD = yearBE - BE_OFFSET;
+  let offset = 0;
+  for (const m of getThaiLunarMonths(yearAD)) {
+    if (m.month === month && m.isLeapMonth === isLeapMonth) {
+      const dayOffset = isWaxing ? day - 1 : day + 14;
+      if (day < 1 || day > 15 || dayOffset >= m.length) return null;
+      const result = new Date((getYearStart(yearAD) + offset + dayOffset) * 86400000);
+      return new Date(result.getUTCFullYear(), result.getUTCMonth(), result.getUTCDate());
+    }
+    offset += m.length;
+  }
+  return null;
+};
+
+const formatLunarMonth = ({ month, isLeapMonth }: Pick<ThaiLunarDate, "month" | "isLeapMonth">): string => {
+  if (isLeapMonth) return "เดือน ๘๘";
+  if (month === 1) return "เดือนอ้าย";
+  if (month === 2) return "เดือนยี่";
+  return `เดือน ${toThaiDigits(String(month))}`;
+};
+
+/**
+ * Short lunar day for calendar cells: "ขึ้น ๘", "แรม ๑๕"
+ */
+export const formatThaiLunarDay = (lunar: ThaiLunarDate): string => {
+  return `${lunar.isWaxing ? "ขึ้น" : "แรม"} ${toThaiDigits(String(lunar.day))}`;
+};
+
+/**
+ * Full lunar date: "ขึ้น ๘ ค่ำ เดือน ๓", "แรม ๑๕ ค่ำ เดือน ๘๘"
+ */
+export const formatThaiLunarDate = (lunar: ThaiLunarDate | null): string => {
+  if (!lunar) return "";
+  return `${formatThaiLunarDay(lunar)} ค่ำ ${formatLunarMonth(lunar)}`;
+};
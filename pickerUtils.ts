@@ -0,0 +1,393 @@
+import {
+  formatThaiDate,
+  parseThaiDate,
+  formatThaiDateTime,
+  parseThaiDateTime,
+  formatADDate,
+  parseADDate,
+  formatADDateTime,
+  parseADDateTime,
+  formatThaiDateTimeWithSeconds,
+  parseThaiDateTimeWithSeconds,
+  formatADDateTimeWithSeconds,
+  parseADDateTimeWithSeconds,
+  formatThaiMonth,
+  parseThaiMonth,
+  formatThaiYear,
+  parseThaiYear,
+  formatADMonth,
+  parseADMonth,
+  formatADYear,
+  parseADYear,
+  DateConstraints,
+  DateValidationError,
+  getDateConstraintError,
+  isMonthOutOfRange,
+  isYearOutOfRange,
+  DEFAULT_TIME_ZONE,
+  formatISODateTime,
+  parseISODateTime,
+  TimeConstraints,
+  TimeOfDay,
+  parseTime,
+  clampTime,
+  getTimeConstraintError,
+  ThaiYearOptions,
+  getSupportedYearRange,
+  Clock,
+} from './dateUtils';
+import type { EraDisplay } from './locale';
+
+// Shared by useThaiCalendar (calendar state) and useThaiDatePicker (text field state)
+
+export type ViewMode = 'day' | 'month' | 'year';
+
+export const DEFAULT_VIEWS: ViewMode[] = ['year', 'month', 'day'];
+
+export interface ValueFormat {
+  mask: string;
+  formatThai: (date: Date | null, options?: ThaiYearOptions) => string;
+  parseThai: (value: string, options?: ThaiYearOptions) => Date | null;
+  formatAD: (date: Date | null) => string;
+  parseAD: (value: string) => Date | null;
+}
+
+// Input mask, BE display and AD value format for each value granularity
+export const VALUE_FORMATS: Record<ViewMode | 'dateTime' | 'dateTimeSeconds', ValueFormat> = {
+  year: { mask: 'YYYY', formatThai: formatThaiYear, parseThai: parseThaiYear, formatAD: formatADYear, parseAD: parseADYear },
+  month: { mask: 'MM/YYYY', formatThai: formatThaiMonth, parseThai: parseThaiMonth, formatAD: formatADMonth, parseAD: parseADMonth },
+  day: { mask: 'DD/MM/YYYY', formatThai: formatThaiDate, parseThai: parseThaiDate, formatAD: formatADDate, parseAD: parseADDate },
+  dateTime: {
+    mask: 'DD/MM/YYYY HH:mm',
+    formatThai: formatThaiDateTime,
+    parseThai: parseThaiDateTime,
+    formatAD: formatADDateTime,
+    parseAD: parseADDateTime,
+  },
+  dateTimeSeconds: {
+    mask: 'DD/MM/YYYY HH:mm:ss',
+    formatThai: formatThaiDateTimeWithSeconds,
+    parseThai: parseThaiDateTimeWithSeconds,
+    formatAD: formatADDateTimeWithSeconds,
+    parseAD: parseADDateTimeWithSeconds,
+  },
+};
+
+// 'ad': zone-less AD strings ("2026-02-18 14:30"); 'iso': ISO 8601 instants with offset ("2026-02-18T14:30:00+07:00")
+export type ValueFormatOption = 'ad' | 'iso';
+
+/**
+ * Value format for a granularity. The BE text follows yearOptions (historical offset, era, year range).
+ * ISO values are read in timeZone and cut down to the granularity
+ * (a date-only picker keeps midnight), so calendar cells compare the same way as with AD strings.
+ */
+export const getValueFormat = (
+  granularity: ViewMode,
+  {
+    withTime = false,
+    withSeconds = false,
+    valueFormat = 'ad',
+    timeZone = DEFAULT_TIME_ZONE,
+    ...yearOptions
+  }: { withTime?: boolean; withSeconds?: boolean; valueFormat?: ValueFormatOption; timeZone?: string } & ThaiYearOptions = {}
+): ValueFormat => {
+  const baseFormat = VALUE_FORMATS[!withTime ? granularity : withSeconds ? 'dateTimeSeconds' : 'dateTime'];
+  const format: ValueFormat = {
+    ...baseFormat,
+    formatThai: (date) => baseFormat.formatThai(date, yearOptions),
+    parseThai: (value) => baseFormat.parseThai(value, yearOptions),
+  };
+  if (valueFormat === 'ad') return format;
+  return {
+    ...format,
+    formatAD: (date) => formatISODateTime(date, timeZone),
+    parseAD: (value) => {
+      const date = parseISODateTime(value, timeZone, yearOptions);
+      return date ? format.parseAD(format.formatAD(date)) : null;
+    },
+  };
+};
+
+/**
+ * Year options for a picker's props, shared by the field, its calendar and ThaiDateDisplay so all three
+ * accept the same values. The text uses AD years only when the locale shows AD only; otherwise it stays BE.
+ */
+export const getPickerYearOptions = ({
+  historicalBE = false,
+  eraDisplay,
+  minYear,
+  maxYear,
+  clock,
+}: {
+  historicalBE?: boolean;
+  eraDisplay: EraDisplay;
+  minYear?: number;
+  maxYear?: number;
+  clock?: Clock;
+}): ThaiYearOptions => ({
+  historical: historicalBE,
+  era: eraDisplay === 'AD' ? 'AD' : 'BE',
+  minYear,
+  maxYear,
+  clock,
+});
+
+/**
+ * The finest view decides the value granularity (['year','month'] -> month values)
+ */
+export const getGranularity = (views: ViewMode[]): ViewMode => {
+  return views.includes('day') ? 'day' : views.includes('month') ? 'month' : 'year';
+};
+
+/**
+ * Pattern shown while the field is not focused when no displayFormat is given; undefined keeps the masked text.
+ * Month-only values read better spelled out ("กุมภาพันธ์ 2569") than as MM/YYYY.
+ */
+export const getDefaultDisplayFormat = (
+  granularity: ViewMode,
+  {
+    era = 'BE',
+    withTime = false,
+    withSeconds = false,
+    thaiTimeSuffix = false,
+  }: { era?: 'BE' | 'AD'; withTime?: boolean; withSeconds?: boolean; thaiTimeSuffix?: boolean } = {}
+): string | undefined => {
+  const yearToken = era === 'AD' ? 'YYYY' : 'BBBB';
+  if (granularity === 'month') return `MMMM ${yearToken}`;
+  if (withTime && thaiTimeSuffix) return `dd/MM/${yearToken} HH.mm${withSeconds ? '.ss' : ''} [น.]`;
+  return undefined;
+};
+
+/**
+ * Fills a mask (DD/MM/YYYY HH:mm) with digits; a separator is only added once the digit after it exists
+ */
+export const applyMask = (digits: string, mask: string): string => {
+  let formatted = '';
+  let index = 0;
+  for (const ch of mask) {
+    if (index >= digits.length) break;
+    formatted += /[A-Za-z]/.test(ch) ? digits[index++] : ch;
+  }
+  return formatted;
+};
+
+// Editable parts of a masked input, in mask order
+export type SegmentType = 'day' | 'month' | 'year' | 'hour' | 'minute' | 'second';
+
+export interface InputSegment {
+  type: SegmentType;
+  start: number; // Position in the mask (and in the text, which keeps the mask layout)
+  end: number;
+}
+
+const SEGMENT_TOKENS: Record<string, SegmentType> = {
+  DD: 'day',
+  MM: 'month',
+  YYYY: 'year',
+  HH: 'hour',
+  mm: 'minute',
+  ss: 'second',
+};
+
+// Highest value a segment accepts while typing; the day is checked against its month when parsed
+const SEGMENT_MAX: Record<SegmentType, number> = { day: 31, month: 12, year: 9999, hour: 23, minute: 59, second: 59 };
+
+/**
+ * Segments of a mask: "DD/MM/YYYY HH:mm" -> day 0-2, month 3-5, year 6-10, hour 11-13, minute 14-16
+ */
+export const getInputSegments = (mask: string): InputSegment[] => {
+  const segments: InputSegment[] = [];
+  const tokenRegex = /DD|MM|YYYY|HH|mm|ss/g;
+  let match: RegExpExecArray | null;
+  while ((match = tokenRegex.exec(mask))) {
+    segments.push({ type: SEGMENT_TOKENS[match[0]], start: match.index, end: match.index + match[0].length });
+  }
+  return segments;
+};
+
+/**
+ * Index of the segment holding a caret position (a caret right after a segment belongs to it)
+ */
+export const getSegmentIndexAt = (segments: InputSegment[], position: number): number => {
+  const index = segments.findIndex(({ end }) => position <= end);
+  return index === -1 ? segments.length - 1 : index;
+};
+
+/**
+ * Whether text keeps the mask layout, each segment holding digits or the mask's own letters ("18/MM/2569")
+ */
+export const isSegmentText = (text: string, mask: string): boolean => {
+  if (text.length !== mask.length) return false;
+  return [...mask].every((ch, i) => (/[A-Za-z]/.test(ch) ? text[i] === ch || /\d/.test(text[i]) : text[i] === ch));
+};
+
+/**
+ * Digits of each segment; a segment still showing its mask letters reads as ''
+ */
+export const readSegments = (text: string, segments: InputSegment[]): string[] => {
+  return segments.map(({ start, end }) => {
+    const part = text.slice(start, end);
+    return /^\d+$/.test(part) ? part : '';
+  });
+};
+
+/**
+ * Writes segment digits into the mask, zero-padded; empty segments keep the mask letters ("18/MM/YYYY").
+ * Returns '' once every segment is empty.
+ */
+export const writeSegments = (values: string[], mask: string, segments: InputSegment[]): string => {
+  if (!values.some(Boolean)) return '';
+  return segments.reduce((text, { start, end }, i) => {
+    if (!values[i]) return text;
+    return text.slice(0, start) + values[i].padStart(end - start, '0') + text.slice(end);
+  }, mask);
+};
+
+/**
+ * Adds a typed digit to the digits already typed in a segment. The segment is done when it is full
+ * or no further digit would keep it in range ("4" in the day segment can only mean 04).
+ */
+export const typeSegmentDigit = (
+  { type, start, end }: InputSegment,
+  typed: string,
+  digit: string
+): { digits: string; isDone: boolean } => {
+  const max = SEGMENT_MAX[type];
+  const digits = Number(typed + digit) > max ? digit : typed + digit;
+  return { digits, isDone: digits.length >= end - start || Number(digits + '0') > max };
+};
+
+/**
+ * Moves a segment value by delta (ArrowUp/ArrowDown), wrapping inside its range; years only clamp.
+ * An empty segment (null) starts from the fallback, usually the matching part of today.
+ * With a step (minutes), a value off the step first moves to the next or previous one (07 -> 15 or 00 for 15).
+ */
+export const stepSegmentValue = (
+  type: SegmentType,
+  current: number | null,
+  delta: number,
+  fallback: number,
+  daysInMonth: number = 31,
+  step: number = 1
+): number => {
+  if (current === null) return Math.floor(fallback / step) * step;
+  if (current % step !== 0) {
+    return delta > 0 ? (Math.ceil(current / step) * step) % (SEGMENT_MAX[type] + 1) : Math.floor(current / step) * step;
+  }
+  if (type === 'year') return Math.min(Math.max(current + delta, 1), SEGMENT_MAX.year);
+  const min = type === 'day' || type === 'month' ? 1 : 0;
+  const size = (type === 'day' ? daysInMonth : SEGMENT_MAX[type]) - min + 1;
+  return ((((current - min + delta) % size) + size) % size) + min;
+};
+
+// Constraint props as the components receive them (AD strings; only the date part is compared)
+export interface DateConstraintProps {
+  minDate?: string;
+  maxDate?: string;
+  // Supported AD years for typing and the calendar (default: current year +/- 100)
+  minYear?: number;
+  maxYear?: number;
+  disablePast?: boolean;
+  disableFuture?: boolean;
+  shouldDisableDate?: (date: string) => boolean;
+}
+
+/**
+ * Resolves AD string constraints into Dates; disablePast/disableFuture tighten min/max to today
+ * and the supported year range bounds both, so the calendar never offers a year the input would reject
+ */
+export const resolveDateConstraints = (
+  { minDate, maxDate, minYear, maxYear, disablePast = false, disableFuture = false, shouldDisableDate }: DateConstraintProps,
+  today: Date = new Date()
+): DateConstraints => {
+  const yearRange = getSupportedYearRange({ minYear, maxYear }, today);
+  const firstDay = new Date(yearRange.minYear, 0, 1);
+  const lastDay = new Date(yearRange.maxYear, 11, 31);
+  let min = minDate ? parseADDate(minDate.slice(0, 10)) : null;
+  let max = maxDate ? parseADDate(maxDate.slice(0, 10)) : null;
+  if (!min || min.getTime() < firstDay.getTime()) min = firstDay;
+  if (!max || max.getTime() > lastDay.getTime()) max = lastDay;
+  if (disablePast && min.getTime() < today.getTime()) min = today;
+  if (disableFuture && max.getTime() > today.getTime()) max = today;
+  return {
+    minDate: min,
+    maxDate: max,
+    shouldDisableDate: shouldDisableDate ? (d: Date) => shouldDisableDate(formatADDate(d)) : undefined,
+  };
+};
+
+/**
+ * Checks a value at the granularity being picked: whole years/months against min/max, days against every constraint
+ */
+export const getValueConstraintError = (
+  date: Date,
+  granularity: ViewMode,
+  constraints: DateConstraints
+): DateValidationError | null => {
+  if (granularity === 'day') return getDateConstraintError(date, constraints);
+  const isOut =
+    granularity === 'year'
+      ? isYearOutOfRange(date.getFullYear(), constraints)
+      : isMonthOutOfRange(date.getFullYear(), date.getMonth(), constraints);
+  if (!isOut) return null;
+  return constraints.minDate && date.getTime() < constraints.minDate.getTime() ? 'minDate' : 'maxDate';
+};
+
+// Time selection props (times are "HH:mm" or "HH:mm:ss" strings)
+export interface TimeOptionProps {
+  withSeconds?: boolean;
+  minuteStep?: number;
+  minTime?: string;
+  maxTime?: string;
+}
+
+/**
+ * Whole minutes from 1 to 59; 0, negative or fractional steps would stall or break the minute options
+ */
+export const normalizeMinuteStep = (minuteStep: number = 1): number =>
+  Number.isFinite(minuteStep) ? Math.min(Math.max(Math.floor(minuteStep), 1), 59) : 1;
+
+/**
+ * Parses minTime/maxTime strings (unparsable values are ignored) and normalises minuteStep
+ */
+export const resolveTimeConstraints = ({ minTime, maxTime, minuteStep }: TimeOptionProps): TimeConstraints => ({
+  minTime: minTime ? parseTime(minTime) : null,
+  maxTime: maxTime ? parseTime(maxTime) : null,
+  minuteStep: normalizeMinuteStep(minuteStep),
+});
+
+/**
+ * Starting time when there is no value yet: now, rounded down to the minute step and moved into minTime - maxTime
+ */
+export const getInitialTime = (now: Date, minuteStep: number, constraints: TimeConstraints): TimeOfDay => {
+  const minute = Math.floor(now.getMinutes() / minuteStep) * minuteStep;
+  return clampTime({ hour: now.getHours(), minute, second: 0 }, constraints);
+};
+
+export type TimeUnit = keyof TimeOfDay;
+
+/**
+ * Values a time segment may take: on the minute step, and with at least one allowed time inside minTime - maxTime
+ */
+export const getTimeSegmentOptions = (
+  unit: TimeUnit,
+  time: TimeOfDay,
+  minuteStep: number,
+  constraints: TimeConstraints
+): number[] => {
+  const step = unit === 'minute' ? minuteStep : 1;
+  const options: number[] = [];
+  for (let n = 0; n < (unit === 'hour' ? 24 : 60); n += step) {
+    const first =
+      unit === 'hour'
+        ? { hour: n, minute: 0, second: 0 }
+        : unit === 'minute'
+          ? { ...time, minute: n, second: 0 }
+          : { ...time, second: n };
+    const last = unit === 'hour' ? { hour: n, minute: 59, second: 59 } : unit === 'minute' ? { ...first, second: 59 } : first;
+    if (getTimeConstraintError(last, constraints) !== 'minTime' && getTimeConstraintError(first, constraints) !== 'maxTime') {
+      options.push(n);
+    }
+  }
+  return options;
+};
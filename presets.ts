@@ -0,0 +1,47 @@
+import { addDays, addYears, getFiscalYearBE, getFiscalYearRange } from './dateUtils';
+
+// Quick picks offered next to the calendar; labels come from the locale (labels.presets)
+export type DatePresetKey =
+  | 'today'
+  | 'yesterday'
+  | 'tomorrow'
+  | 'startOfMonth'
+  | 'endOfMonth'
+  | 'in7Days'
+  | 'in30Days'
+  | 'startOfFiscalYear'
+  | 'endOfFiscalYear'
+  | 'sameDayNextYear';
+
+// Custom quick pick; now is the current wall-clock time in the picker's timeZone (referenceDate aware)
+export interface DatePreset {
+  label: string;
+  getValue: (now: Date) => Date;
+}
+
+export type DatePresetOption = DatePresetKey | DatePreset;
+
+export const BUILT_IN_PRESETS: Record<DatePresetKey, (now: Date) => Date> = {
+  today: (now) => now,
+  yesterday: (now) => addDays(now, -1),
+  tomorrow: (now) => addDays(now, 1),
+  startOfMonth: (now) => new Date(now.getFullYear(), now.getMonth(), 1),
+  endOfMonth: (now) => new Date(now.getFullYear(), now.getMonth() + 1, 0),
+  in7Days: (now) => addDays(now, 7),
+  in30Days: (now) => addDays(now, 30),
+  // Thai fiscal year: 1 October - 30 September
+  startOfFiscalYear: (now) => getFiscalYearRange(getFiscalYearBE(now)).start,
+  endOfFiscalYear: (now) => getFiscalYearRange(getFiscalYearBE(now)).end,
+  sameDayNextYear: (now) => addYears(now, 1),
+};
+
+/**
+ * Turns preset keys into { label, getValue } entries with the locale's labels; custom entries pass through
+ */
+export const resolveDatePresets = (
+  presets: DatePresetOption[],
+  labels: Record<DatePresetKey, string>
+): DatePreset[] =>
+  presets.map((preset) =>
+    typeof preset === 'string' ? { label: labels[preset], getValue: BUILT_IN_PRESETS[preset] } : preset
+  );
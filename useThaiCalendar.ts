@@ -0,0 +1,563 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+
+import {
+  BE_OFFSET,
+  formatADDate,
+  parseADDate,
+  getDaysInMonth,
+  getFirstDayOfMonth,
+  isDateDisabled,
+  isMonthOutOfRange,
+  isYearOutOfRange,
+  DEFAULT_TIME_ZONE,
+  nowInTimeZone,
+  TimeOfDay,
+  getTimeOfDay,
+  setTimeOfDay,
+  clampTime,
+  toBuddhistYear,
+  parseADPartialDate,
+  formatADPartialDate,
+  isPartialDateComplete,
+} from './dateUtils';
+import {
+  ViewMode,
+  DEFAULT_VIEWS,
+  ValueFormatOption,
+  DateConstraintProps,
+  TimeOptionProps,
+  getGranularity,
+  getValueFormat,
+  getPickerYearOptions,
+  normalizeMinuteStep,
+  resolveTimeConstraints,
+  getInitialTime,
+  resolveDateConstraints,
+  getValueConstraintError,
+} from './pickerUtils';
+import { useDatePickerLocale } from './locale';
+import { useDatePickerClock } from './clock';
+import { DatePresetOption, resolveDatePresets } from './presets';
+
+interface ThaiCalendarBaseOptions extends DateConstraintProps, TimeOptionProps {
+  withTime?: boolean;
+  // Reachable views; the finest one commits the value (['year','month'] -> "2026-02", ['year'] -> "2026")
+  views?: ViewMode[];
+  openTo?: ViewMode;
+  // Zone that "today" and ISO values are read in; 'iso' values carry an offset ("2026-02-18T14:30:00+07:00")
+  timeZone?: string;
+  valueFormat?: ValueFormatOption;
+  // Show January-March before 1941 with the old BE year (1 Apr new year), e.g. 1 Feb 1940 -> 2482
+  historicalBE?: boolean;
+  // Called once a pick is final (a day without time, the finest month/year cell, Today, or ตกลง)
+  onSelectionComplete?: () => void;
+  // Whether a final cell pick completes the selection (default: without time); off leaves it to ตกลง
+  closeOnSelect?: boolean;
+  // Shows ยกเลิก in the footer, e.g. to drop the draft of a popover
+  onCancel?: () => void;
+  // Quick picks: built-in keys ('endOfMonth', 'in7Days', ...) or { label, getValue(now) }
+  presets?: DatePresetOption[];
+  // Move DOM focus to the active cell on mount
+  autoFocus?: boolean;
+  // "Now" for today, the initial page and the default year window (default: DatePickerClockProvider or the system clock)
+  referenceDate?: Date;
+}
+
+interface SingleCalendarOptions extends ThaiCalendarBaseOptions {
+  multiple?: false;
+  value: string; // AD string: "2026-02-18"
+  onChange: (value: string) => void;
+  // Offer "unknown day" (day view) and "unknown month" (month view) picks: "1957-05-00", "1957-00-00"
+  allowPartial?: boolean;
+}
+
+// Multiple mode: clicking a day toggles it in a sorted list of AD dates; time selection does not apply
+interface MultipleCalendarOptions extends ThaiCalendarBaseOptions {
+  multiple: true;
+  value: string[]; // ["2026-02-18", "2026-02-20"]
+  onChange: (value: string[]) => void;
+}
+
+export type UseThaiCalendarOptions = SingleCalendarOptions | MultipleCalendarOptions;
+
+// Columns per row in each view; also the step for ArrowUp/ArrowDown
+const VIEW_COLUMNS: Record<ViewMode, number> = { day: 7, month: 3, year: 4 };
+
+// The year view shows one decade (in the displayed era) plus the year on each side
+const YEAR_PAGE_SIZE = 12;
+
+/**
+ * Calendar state and handlers without any markup: visible page, view mode, keyboard focus and time selection.
+ * ThaiCalendar renders it; build a custom calendar UI on top of it the same way.
+ */
+export const useThaiCalendar = (options: UseThaiCalendarOptions) => {
+  const {
+    withTime: withTimeProp = false,
+    withSeconds = false,
+    minuteStep: minuteStepProp,
+    minTime,
+    maxTime,
+    views = DEFAULT_VIEWS,
+    openTo,
+    timeZone = DEFAULT_TIME_ZONE,
+    valueFormat = 'ad',
+    historicalBE = false,
+    minDate,
+    maxDate,
+    minYear,
+    maxYear,
+    disablePast = false,
+    disableFuture = false,
+    shouldDisableDate,
+    onSelectionComplete,
+    onCancel,
+    presets = [],
+    autoFocus = false,
+    referenceDate,
+  } = options;
+  const clock = useDatePickerClock(referenceDate);
+  const minuteStep = normalizeMinuteStep(minuteStepProp);
+
+  // The finest view decides the value granularity; time only applies to full dates
+  const granularity = getGranularity(views);
+  const withTime = withTimeProp && granularity === 'day' && !options.multiple;
+  // Multiple mode always waits for ตกลง
+  const closeOnSelect = !options.multiple && (options.closeOnSelect ?? !withTime);
+  const completeSelection = () => {
+    if (closeOnSelect) onSelectionComplete?.();
+  };
+  const { firstDayOfWeek, eraDisplay, labels } = useDatePickerLocale();
+  // Same year options as the field, so the calendar reads every value the field accepts
+  const yearOptions = getPickerYearOptions({ historicalBE, eraDisplay, minYear, maxYear, clock });
+  const { formatAD, parseAD } = getValueFormat(granularity, { withTime, withSeconds, valueFormat, timeZone, ...yearOptions });
+  const initialView = openTo && views.includes(openTo) ? openTo : granularity;
+  // Year cells are numbered in the displayed era, so decades line up with what the user reads (2560-2569)
+  const yearOffset = eraDisplay === 'AD' ? 0 : BE_OFFSET;
+
+  // Single mode works on one value string, multiple mode on the list of dates
+  const value = options.multiple ? '' : options.value;
+  const multipleDates = options.multiple
+    ? options.value
+        .map(parseADDate)
+        .filter((d): d is Date => d !== null)
+        .sort((a, b) => a.getTime() - b.getTime())
+    : [];
+  const emitValue = (newValue: string) => {
+    if (!options.multiple) options.onChange(newValue);
+  };
+  // Partial picks only make sense for date-only day values
+  const allowPartial = !options.multiple && !!options.allowPartial && granularity === 'day' && !withTime;
+  const partialValue = allowPartial ? parseADPartialDate(value) : null;
+  const selectedPartial = partialValue && !isPartialDateComplete(partialValue) ? partialValue : null;
+  // Page to show for a value: its date, or the known month/year of a partial value
+  const getValuePage = (v: string): Date | null => {
+    const partial = allowPartial ? parseADPartialDate(v) : null;
+    if (partial && !isPartialDateComplete(partial)) return new Date(partial.yearAD, partial.monthIndex ?? 0, 1);
+    return parseAD(v);
+  };
+
+  const constraints = useMemo(
+    () =>
+      resolveDateConstraints(
+        { minDate, maxDate, minYear, maxYear, disablePast, disableFuture, shouldDisableDate },
+        nowInTimeZone(timeZone, clock)
+      ),
+    [minDate, maxDate, minYear, maxYear, disablePast, disableFuture, shouldDisableDate, timeZone, clock]
+  );
+
+  const timeConstraints = useMemo(() => resolveTimeConstraints({ minTime, maxTime, minuteStep }), [minTime, maxTime, minuteStep]);
+
+  // Wall-clock "now" in timeZone, so the highlighted day is right for users and servers in other zones
+  const today = nowInTimeZone(timeZone, clock);
+
+  const isValueDisabled = (d: Date) => getValueConstraintError(d, granularity, constraints) !== null;
+
+  // Keep the initial calendar page inside the allowed range
+  const clampToRange = (d: Date) => {
+    if (constraints.minDate && d.getTime() < constraints.minDate.getTime()) return constraints.minDate;
+    if (constraints.maxDate && d.getTime() > constraints.maxDate.getTime()) return constraints.maxDate;
+    return d;
+  };
+
+  // ViewDate tracks the month/year currently shown; it starts on the value, or today when empty
+  const [viewDate, setViewDate] = useState<Date>(() => getValuePage(value) ?? multipleDates[0] ?? clampToRange(today));
+  const [viewMode, setViewMode] = useState<ViewMode>(initialView);
+  const [selectedTime, setSelectedTime] = useState<TimeOfDay>(() => {
+    const propDate = parseAD(value);
+    return propDate ? getTimeOfDay(propDate) : getInitialTime(today, minuteStep, timeConstraints);
+  });
+
+  // Keyboard focus: the cell holding the roving tabIndex in the current view
+  const [focusedDate, setFocusedDate] = useState<Date>(
+    () => getValuePage(value) ?? multipleDates[0] ?? clampToRange(today)
+  );
+  const gridRef = useRef<HTMLDivElement>(null);
+  const timeSectionRef = useRef<HTMLDivElement>(null);
+  // Set when the next render should move DOM focus into the grid (keyboard move, view change or autoFocus)
+  const focusGridRef = useRef(autoFocus);
+
+  // Follow value changes made outside the calendar (typed input, parent updates)
+  useEffect(() => {
+    const propDate = parseAD(value);
+    if (propDate) {
+      setViewDate(propDate);
+      setSelectedTime(getTimeOfDay(propDate));
+    } else if (selectedPartial) {
+      setViewDate(new Date(selectedPartial.yearAD, selectedPartial.monthIndex ?? 0, 1));
+    }
+  }, [value, withTime, withSeconds, granularity, valueFormat, timeZone, allowPartial]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const focusActiveCell = () => {
+    const cell = gridRef.current?.querySelector<HTMLElement>('[tabindex="0"]');
+    if (cell) {
+      cell.focus();
+      focusGridRef.current = false;
+    }
+  };
+
+  // Runs after every render; only acts when a keyboard move or view change asked for it
+  useEffect(() => {
+    if (focusGridRef.current) focusActiveCell();
+  });
+
+  const changeViewMode = (mode: ViewMode) => {
+    setViewMode(mode);
+    focusGridRef.current = true;
+  };
+
+  const handlePrev = () => {
+    if (viewMode === 'day') {
+      setViewDate(new Date(viewDate.getFullYear(), viewDate.getMonth() - 1, 1));
+    } else if (viewMode === 'month') {
+      setViewDate(new Date(viewDate.getFullYear() - 1, viewDate.getMonth(), 1));
+    } else {
+      setViewDate(new Date(viewDate.getFullYear() - 10, viewDate.getMonth(), 1));
+    }
+  };
+
+  const handleNext = () => {
+    if (viewMode === 'day') {
+      setViewDate(new Date(viewDate.getFullYear(), viewDate.getMonth() + 1, 1));
+    } else if (viewMode === 'month') {
+      setViewDate(new Date(viewDate.getFullYear() + 1, viewDate.getMonth(), 1));
+    } else {
+      setViewDate(new Date(viewDate.getFullYear() + 10, viewDate.getMonth(), 1));
+    }
+  };
+
+  // Year view: jump a whole century for archive dates
+  const handlePrevCentury = () => setViewDate(new Date(viewDate.getFullYear() - 100, viewDate.getMonth(), 1));
+  const handleNextCentury = () => setViewDate(new Date(viewDate.getFullYear() + 100, viewDate.getMonth(), 1));
+
+  // Prev/next stop once the neighbouring page lies entirely outside min/max
+  const viewYear = viewDate.getFullYear();
+  const viewMonth = viewDate.getMonth();
+  const yearPageStart = Math.floor((viewYear + yearOffset) / 10) * 10 - 1 - yearOffset;
+  const prevMonthDate = new Date(viewYear, viewMonth - 1, 1);
+  const nextMonthDate = new Date(viewYear, viewMonth + 1, 1);
+  const isPrevDisabled =
+    viewMode === 'day'
+      ? isMonthOutOfRange(prevMonthDate.getFullYear(), prevMonthDate.getMonth(), constraints)
+      : viewMode === 'month'
+        ? isYearOutOfRange(viewYear - 1, constraints)
+        : isYearOutOfRange(yearPageStart, constraints);
+  const isNextDisabled =
+    viewMode === 'day'
+      ? isMonthOutOfRange(nextMonthDate.getFullYear(), nextMonthDate.getMonth(), constraints)
+      : viewMode === 'month'
+        ? isYearOutOfRange(viewYear + 1, constraints)
+        : isYearOutOfRange(yearPageStart + YEAR_PAGE_SIZE - 1, constraints);
+  // Century jumps stop when the target decade (cells 1-10) is entirely out of range
+  const isPrevCenturyDisabled = isYearOutOfRange(yearPageStart + 10 - 100, constraints);
+  const isNextCenturyDisabled = isYearOutOfRange(yearPageStart + 1 + 100, constraints);
+  const isTodayDisabled = isValueDisabled(today);
+
+  // Preset dates for today; the ones outside the constraints stay visible but disabled
+  const presetItems = resolveDatePresets(presets, labels.presets).map(({ label, getValue }) => {
+    const date = getValue(today);
+    return { label, date, isDisabled: isValueDisabled(date) };
+  });
+
+  // The focused cell falls back to the first cell of the page when focusedDate is not visible
+  const activeDate =
+    viewMode === 'day'
+      ? focusedDate.getFullYear() === viewYear && focusedDate.getMonth() === viewMonth
+        ? focusedDate
+        : new Date(viewYear, viewMonth, 1)
+      : viewMode === 'month'
+        ? focusedDate.getFullYear() === viewYear
+          ? focusedDate
+          : new Date(viewYear, viewMonth, 1)
+        : focusedDate.getFullYear() >= yearPageStart && focusedDate.getFullYear() < yearPageStart + YEAR_PAGE_SIZE
+          ? focusedDate
+          : new Date(viewYear, viewMonth, 1);
+
+  const handleDateSelect = (day: number) => {
+    if (isDateDisabled(new Date(viewDate.getFullYear(), viewDate.getMonth(), day), constraints)) return;
+    if (options.multiple) {
+      const key = formatADDate(new Date(viewDate.getFullYear(), viewDate.getMonth(), day));
+      const { value: values, onChange: onValuesChange } = options;
+      onValuesChange(values.includes(key) ? values.filter((v) => v !== key) : [...values, key].sort());
+      return;
+    }
+    const time = withTime ? selectedTime : { hour: 0, minute: 0, second: 0 };
+    const newDate = setTimeOfDay(new Date(viewDate.getFullYear(), viewDate.getMonth(), day), time);
+    emitValue(formatAD(newDate));
+
+    if (closeOnSelect) {
+      onSelectionComplete?.();
+    } else if (withTime) {
+      // Carry focus on to the hour field
+      timeSectionRef.current?.querySelector<HTMLElement>('input')?.focus();
+    }
+  };
+
+  const handleYearSelect = (yearAD: number) => {
+    if (!views.includes('month')) {
+      emitValue(formatAD(new Date(yearAD, 0, 1)));
+      completeSelection();
+      return;
+    }
+    setViewDate(new Date(yearAD, viewDate.getMonth(), 1));
+    setFocusedDate(new Date(yearAD, activeDate.getMonth(), 1));
+    changeViewMode('month');
+  };
+
+  const handleMonthSelect = (monthIndex: number) => {
+    const target = new Date(viewDate.getFullYear(), monthIndex, 1);
+    if (!views.includes('day')) {
+      emitValue(formatAD(target));
+      completeSelection();
+      return;
+    }
+    setViewDate(target);
+    const day = Math.min(activeDate.getDate(), getDaysInMonth(target.getFullYear(), monthIndex));
+    setFocusedDate(new Date(target.getFullYear(), monthIndex, day));
+    changeViewMode('day');
+  };
+
+  // Day view picks the shown month with an unknown day, month view the shown year with an unknown month
+  const handlePartialSelect = () => {
+    if (!allowPartial) return;
+    const monthIndex = viewMode === 'day' ? viewMonth : null;
+    const isOut =
+      monthIndex === null ? isYearOutOfRange(viewYear, constraints) : isMonthOutOfRange(viewYear, monthIndex, constraints);
+    if (isOut) return;
+    emitValue(formatADPartialDate({ yearAD: viewYear, monthIndex, day: null }));
+    completeSelection();
+  };
+
+  const handleTimeChange = (newTime: TimeOfDay) => {
+    setSelectedTime(newTime);
+
+    const propDate = parseAD(value);
+    if (propDate) emitValue(formatAD(setTimeOfDay(propDate, newTime)));
+  };
+
+  // Sets the whole single value (date and time) from one Date, e.g. from wheels; the selection is not completed
+  const handleValueChange = (date: Date) => {
+    if (options.multiple) return;
+    const time = withTime ? getTimeOfDay(date) : { hour: 0, minute: 0, second: 0 };
+    emitValue(formatAD(setTimeOfDay(date, time)));
+    setViewDate(date);
+    setFocusedDate(date);
+    setSelectedTime(time);
+  };
+
+  const handleToday = () => {
+    const now = nowInTimeZone(timeZone, clock);
+    if (isValueDisabled(now)) return;
+    if (options.multiple) {
+      // Adds today (never removes it) and shows its month
+      const key = formatADDate(now);
+      if (!options.value.includes(key)) options.onChange([...options.value, key].sort());
+      setViewDate(now);
+      setFocusedDate(now);
+      return;
+    }
+    // Now on the minute step like the initial time, keeping the seconds only when they are picked
+    const onStep = getInitialTime(now, minuteStep, {});
+    const time = clampTime({ ...onStep, second: withSeconds ? now.getSeconds() : 0 }, timeConstraints);
+    emitValue(formatAD(setTimeOfDay(now, time)));
+
+    setViewDate(now);
+    setFocusedDate(now);
+    setSelectedTime(time);
+    completeSelection();
+  };
+
+  // Picks a preset date like a day cell: the chosen time is kept, multiple mode adds the day
+  const handlePresetSelect = (date: Date) => {
+    if (isValueDisabled(date)) return;
+    if (options.multiple) {
+      const key = formatADDate(date);
+      if (!options.value.includes(key)) options.onChange([...options.value, key].sort());
+    } else {
+      emitValue(formatAD(setTimeOfDay(date, withTime ? selectedTime : { hour: 0, minute: 0, second: 0 })));
+    }
+    setViewDate(date);
+    setFocusedDate(date);
+    completeSelection();
+  };
+
+  // Calendar Grid Generation
+  const calendarGrid = useMemo(() => {
+    const year = viewDate.getFullYear();
+    const month = viewDate.getMonth();
+    const daysInMonth = getDaysInMonth(year, month);
+    const firstDay = getFirstDayOfMonth(year, month, firstDayOfWeek);
+
+    const days: (number | null)[] = [];
+    for (let i = 0; i < firstDay; i++) {
+      days.push(null);
+    }
+    for (let i = 1; i <= daysInMonth; i++) {
+      days.push(i);
+    }
+    return days;
+  }, [viewDate, firstDayOfWeek]);
+
+  const moveFocus = (target: Date) => {
+    setFocusedDate(target);
+    focusGridRef.current = true;
+    if (viewMode === 'day' && (target.getFullYear() !== viewYear || target.getMonth() !== viewMonth)) {
+      setViewDate(new Date(target.getFullYear(), target.getMonth(), 1));
+    } else if (viewMode === 'month' && target.getFullYear() !== viewYear) {
+      setViewDate(new Date(target.getFullYear(), target.getMonth(), 1));
+    } else if (
+      viewMode === 'year' &&
+      (target.getFullYear() < yearPageStart || target.getFullYear() >= yearPageStart + YEAR_PAGE_SIZE)
+    ) {
+      setViewDate(new Date(target.getFullYear(), viewMonth, 1));
+    }
+  };
+
+  // Walks from target in the direction of travel until an enabled day is found
+  const findEnabledDay = (target: Date, step: 1 | -1): Date | null => {
+    let d = target;
+    for (let i = 0; i < 366; i++) {
+      if (!isDateDisabled(d, constraints)) return d;
+      d = new Date(d.getFullYear(), d.getMonth(), d.getDate() + step);
+    }
+    return null;
+  };
+
+  // Same day in another month, clamped to that month's last day
+  const shiftMonths = (d: Date, months: number) => {
+    const target = new Date(d.getFullYear(), d.getMonth() + months, 1);
+    const day = Math.min(d.getDate(), getDaysInMonth(target.getFullYear(), target.getMonth()));
+    return new Date(target.getFullYear(), target.getMonth(), day);
+  };
+
+  const handleGridKeyDown = (e: React.KeyboardEvent<HTMLElement>) => {
+    const d = activeDate;
+    const columns = VIEW_COLUMNS[viewMode];
+
+    if (viewMode === 'day') {
+      const weekdayIndex = (d.getDay() - firstDayOfWeek + 7) % 7;
+      const dayOffsets: Record<string, number> = {
+        ArrowLeft: -1,
+        ArrowRight: 1,
+        ArrowUp: -columns,
+        ArrowDown: columns,
+        Home: -weekdayIndex,
+        End: 6 - weekdayIndex,
+      };
+      let target: Date | null = null;
+      if (e.key in dayOffsets) {
+        target = new Date(d.getFullYear(), d.getMonth(), d.getDate() + dayOffsets[e.key]);
+      } else if (e.key === 'PageUp' || e.key === 'PageDown') {
+        const direction = e.key === 'PageUp' ? -1 : 1;
+        target = shiftMonths(d, direction * (e.shiftKey ? 12 : 1));
+      } else {
+        return;
+      }
+      e.preventDefault();
+      // Home/End search inwards from the week edge; everything else keeps its direction of travel
+      const step = e.key === 'Home' ? 1 : e.key === 'End' ? -1 : target.getTime() < d.getTime() ? -1 : 1;
+      const enabled = findEnabledDay(target, step);
+      if (enabled) moveFocus(enabled);
+      return;
+    }
+
+    // Month and year grids: one cell per month/year; PageUp/PageDown move a year (month view)
+    // or a decade (year view), with Shift a century in year view
+    const unit = viewMode === 'month' ? 1 : 12;
+    const pageStep = viewMode === 'month' ? 12 : e.shiftKey ? 100 : 10;
+    const cellOffsets: Record<string, number> = {
+      ArrowLeft: -1,
+      ArrowRight: 1,
+      ArrowUp: -columns,
+      ArrowDown: columns,
+      PageUp: -pageStep,
+      PageDown: pageStep,
+    };
+    if (!(e.key in cellOffsets)) return;
+    e.preventDefault();
+
+    const target = shiftMonths(d, cellOffsets[e.key] * unit);
+    const isOut =
+      viewMode === 'month'
+        ? isMonthOutOfRange(target.getFullYear(), target.getMonth(), constraints)
+        : isYearOutOfRange(target.getFullYear(), constraints);
+    if (!isOut) moveFocus(target);
+  };
+
+  return {
+    views,
+    granularity,
+    withTime,
+    withSeconds,
+    minuteStep,
+    // Off when picks wait for ตกลง (time, closeOnSelect={false} or multiple)
+    closeOnSelect,
+    onCancel,
+    constraints,
+    timeConstraints,
+    today,
+    multiple: !!options.multiple,
+    // Dates highlighted in the grids: the value, or every date in multiple mode
+    selectedDates: options.multiple ? multipleDates : [parseAD(value)].filter((d): d is Date => d !== null),
+    // A value with an unknown day or month; month/year cells highlight its known parts
+    allowPartial,
+    selectedPartial,
+    // The partial pick offered in the current view is outside min/max
+    isPartialSelectDisabled:
+      viewMode === 'day' ? isMonthOutOfRange(viewYear, viewMonth, constraints) : isYearOutOfRange(viewYear, constraints),
+    historicalBE,
+    viewDate,
+    viewMode,
+    // Day view follows the historical offset of the shown month; month/year views use the plain offset
+    currentYearBE: viewMode === 'day' ? toBuddhistYear(viewDate, historicalBE) : viewDate.getFullYear() + BE_OFFSET,
+    // AD years shown in the year grid: the decade of viewDate in the displayed era, plus one on each side
+    yearPage: Array.from({ length: YEAR_PAGE_SIZE }, (_, i) => yearPageStart + i),
+    calendarGrid,
+    activeDate,
+    selectedTime,
+    isPrevDisabled,
+    isNextDisabled,
+    isPrevCenturyDisabled,
+    isNextCenturyDisabled,
+    isTodayDisabled,
+    presets: presetItems,
+    gridRef,
+    timeSectionRef,
+    focusActiveCell,
+    changeViewMode,
+    handlePrev,
+    handleNext,
+    handlePrevCentury,
+    handleNextCentury,
+    handleDateSelect,
+    handleYearSelect,
+    handleMonthSelect,
+    handlePartialSelect,
+    handlePresetSelect,
+    handleTimeChange,
+    handleValueChange,
+    handleToday,
+    handleGridKeyDown,
+  };
+};
+
+export type ThaiCalendarState = ReturnType<typeof useThaiCalendar>;
@@ -0,0 +1,642 @@
+import React, { useState, useEffect, useLayoutEffect, useMemo, useRef } from 'react';
+
+import {
+  formatThai as formatThaiPattern,
+  fromDisplayYear,
+  getDaysInMonth,
+  DateValidationError,
+  isYearInSupportedRange,
+  parseThaiDateLenient,
+  ThaiFormatOptions,
+  DEFAULT_TIME_ZONE,
+  nowInTimeZone,
+  getTimeOfDay,
+  getTimeConstraintError,
+  formatThaiTime,
+  PartialDate,
+  parseThaiPartialDate,
+  formatThaiPartialDate,
+  parseADPartialDate,
+  formatADPartialDate,
+  isPartialDateComplete,
+  getPartialDateConstraintError,
+  calculateAge,
+} from './dateUtils';
+import {
+  ViewMode,
+  DEFAULT_VIEWS,
+  ValueFormatOption,
+  DateConstraintProps,
+  TimeOptionProps,
+  applyMask,
+  getInputSegments,
+  getDefaultDisplayFormat,
+  getSegmentIndexAt,
+  isSegmentText,
+  readSegments,
+  writeSegments,
+  typeSegmentDigit,
+  stepSegmentValue,
+  getGranularity,
+  getValueFormat,
+  getPickerYearOptions,
+  normalizeMinuteStep,
+  resolveTimeConstraints,
+  resolveDateConstraints,
+  getValueConstraintError,
+} from './pickerUtils';
+import { UseThaiCalendarOptions } from './useThaiCalendar';
+import { useDatePickerLocale } from './locale';
+import { useDatePickerClock } from './clock';
+
+// Caret restoring must run before paint in the browser; useEffect keeps server rendering quiet
+const useIsomorphicLayoutEffect = typeof window !== 'undefined' ? useLayoutEffect : useEffect;
+
+// Keys that finish the current segment and move to the next one, like typing the separator
+const SEGMENT_SEPARATOR_KEYS = ['/', '-', '.', ' ', ':'];
+
+export interface UseThaiDatePickerOptions extends DateConstraintProps, TimeOptionProps {
+  value: string; // AD string: "2026-02-18"
+  onChange: (value: string) => void;
+  withTime?: boolean;
+  // Show the time Thai style while not focused: "18/02/2569 14.30 น."
+  thaiTimeSuffix?: boolean;
+  views?: ViewMode[];
+  openTo?: ViewMode;
+  timeZone?: string;
+  valueFormat?: ValueFormatOption;
+  // Type and show January-March before 1941 with the old BE year (01/02/2482 = 1 Feb 1940)
+  historicalBE?: boolean;
+  // Accept an unknown day or month: "00/05/2500" <-> "1957-05-00" (date-only day pickers)
+  allowPartial?: boolean;
+  disabled?: boolean;
+  // Pattern for the value shown while the field is not focused, e.g. "d MMMM BBBB" (see formatThai in dateUtils)
+  displayFormat?: string;
+  displayFormatOptions?: ThaiFormatOptions;
+  // "Now" for today, age and the default year window (default: DatePickerClockProvider or the system clock)
+  referenceDate?: Date;
+  // Controlled popover; onOpen/onClose ask the parent to change open (they are called in uncontrolled mode too)
+  open?: boolean;
+  onOpen?: () => void;
+  onClose?: () => void;
+  // Whether a final pick in the calendar closes it (default: without time); off waits for ตกลง
+  closeOnSelect?: boolean;
+  // Called with the value once it is committed: ตกลง or a closing pick, the clear button, or leaving an edited input
+  onAccept?: (value: string) => void;
+  // Called when the validation reason changes; null once the input is valid or empty again
+  onError?: (reason: DateValidationError | null, rawInput: string) => void;
+}
+
+/**
+ * Headless date picker: masked BE input, free-form parsing, validation and popover state.
+ * Wire the handlers to any input and render <ThaiCalendar {...calendarProps} /> while isCalendarOpen.
+ */
+export const useThaiDatePicker = ({
+  value,
+  onChange,
+  withTime: withTimeProp = false,
+  withSeconds = false,
+  minuteStep,
+  minTime,
+  maxTime,
+  thaiTimeSuffix = false,
+  views = DEFAULT_VIEWS,
+  openTo,
+  timeZone = DEFAULT_TIME_ZONE,
+  valueFormat = 'ad',
+  historicalBE = false,
+  allowPartial: allowPartialProp = false,
+  disabled = false,
+  minDate,
+  maxDate,
+  minYear,
+  maxYear,
+  disablePast = false,
+  disableFuture = false,
+  shouldDisableDate,
+  displayFormat,
+  displayFormatOptions,
+  referenceDate,
+  open: openProp,
+  onOpen,
+  onClose,
+  closeOnSelect,
+  onAccept,
+  onError,
+}: UseThaiDatePickerOptions) => {
+  const locale = useDatePickerLocale();
+  const clock = useDatePickerClock(referenceDate);
+  const { labels } = locale;
+  // The text uses AD years only when the locale shows AD only; otherwise DD/MM/YYYY stays BE
+  const yearOptions = useMemo(
+    () => getPickerYearOptions({ historicalBE, eraDisplay: locale.eraDisplay, minYear, maxYear, clock }),
+    [historicalBE, locale.eraDisplay, minYear, maxYear, clock]
+  );
+  const { era } = yearOptions;
+  const granularity = getGranularity(views);
+  const withTime = withTimeProp && granularity === 'day';
+  // Kept across renders: a table re-renders every field on each keystroke
+  const format = useMemo(
+    () => getValueFormat(granularity, { withTime, withSeconds, valueFormat, timeZone, ...yearOptions }),
+    [granularity, withTime, withSeconds, valueFormat, timeZone, yearOptions]
+  );
+  const { formatThai, parseThai, formatAD, parseAD } = format;
+  const allowPartial = allowPartialProp && granularity === 'day' && !withTime;
+  const segments = useMemo(() => getInputSegments(format.mask), [format.mask]);
+
+  const [inputValue, setInputValue] = useState('');
+  // The masked DD/MM/YYYY text is only needed while editing; displayFormat takes over otherwise
+  const [isInputFocused, setIsInputFocused] = useState(false);
+  // Where the popover is anchored: the adornment that was clicked, or the field root when opened another way
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  const [isOpenState, setIsOpenState] = useState(false);
+  // Value being edited in the popover; null until the calendar changes something. Sent on accept, dropped on cancel
+  const [draftValue, setDraftValue] = useState<string | null>(null);
+  // Mirrors draftValue for an accept in the same event as the pick that changed it
+  const draftValueRef = useRef<string | null>(null);
+  // Value when the input got focus and the last value typed since, for onAccept when the user leaves the field
+  const focusValueRef = useRef<string | null>(null);
+  const typedValueRef = useRef<string | null>(null);
+  // Root of the field (set by the component), the anchor when the popover is opened by the open prop or the ref
+  const fieldRef = useRef<HTMLDivElement | null>(null);
+
+  const [validationError, setValidationError] = useState<DateValidationError | null>(null);
+  // Mirrors validationError so several reports within one event only fire onError once
+  const validationErrorRef = useRef<DateValidationError | null>(null);
+  // Last value sent to the parent, so echoing back our own '' for a rejected input does not wipe the text
+  const emittedValueRef = useRef<string | null>(null);
+
+  // Text is edited segment by segment (day, month, year, hour, ...); the input element comes from its events
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  // Digits typed so far into a segment that can still take more ("1" in the day segment may become 12)
+  const typedSegmentRef = useRef<{ index: number; digits: string } | null>(null);
+  // Selection to restore once React has written the new text (which moves the caret to the end)
+  const selectionRef = useRef<[number, number] | null>(null);
+
+  useIsomorphicLayoutEffect(() => {
+    const input = inputRef.current;
+    if (selectionRef.current && input && document.activeElement === input) {
+      input.setSelectionRange(...selectionRef.current);
+    }
+    selectionRef.current = null;
+  });
+
+  const setDraft = (newDraft: string | null) => {
+    draftValueRef.current = newDraft;
+    setDraftValue(newDraft);
+  };
+
+  const emitChange = (newValue: string) => {
+    emittedValueRef.current = newValue;
+    if (isInputFocused) typedValueRef.current = newValue;
+    onChange(newValue);
+    // Typing while the popover is open replaces what the calendar was editing
+    if (draftValueRef.current !== null) setDraft(null);
+  };
+
+  const reportError = (reason: DateValidationError | null, rawInput: string) => {
+    if (reason !== validationErrorRef.current) {
+      validationErrorRef.current = reason;
+      onError?.(reason, rawInput);
+    }
+    setValidationError(reason);
+  };
+
+  const isCalendarOpen = openProp ?? isOpenState;
+
+  useIsomorphicLayoutEffect(() => {
+    if (isCalendarOpen && !anchorEl && fieldRef.current) setAnchorEl(fieldRef.current);
+  }, [isCalendarOpen, anchorEl]);
+
+  const constraints = useMemo(
+    () =>
+      resolveDateConstraints(
+        { minDate, maxDate, minYear, maxYear, disablePast, disableFuture, shouldDisableDate },
+        nowInTimeZone(timeZone, clock)
+      ),
+    [minDate, maxDate, minYear, maxYear, disablePast, disableFuture, shouldDisableDate, timeZone, clock]
+  );
+
+  const timeConstraints = useMemo(() => resolveTimeConstraints({ minTime, maxTime, minuteStep }), [minTime, maxTime, minuteStep]);
+
+  // Typed and pasted values are checked at the granularity being picked, plus minTime/maxTime and minuteStep with time
+  const getConstraintError = (d: Date) =>
+    getValueConstraintError(d, granularity, constraints) ??
+    (withTime ? getTimeConstraintError(getTimeOfDay(d), timeConstraints) : null);
+  const isValueDisabled = (d: Date) => getConstraintError(d) !== null;
+
+  // Value with an unknown day or month ("1957-05-00"); complete dates take the normal path
+  const getPartialValue = (v: string): PartialDate | null => {
+    const partial = allowPartial ? parseADPartialDate(v) : null;
+    return partial && !isPartialDateComplete(partial) ? partial : null;
+  };
+  const getPartialText = (text: string): PartialDate | null => {
+    const partial = allowPartial ? parseThaiPartialDate(text, yearOptions) : null;
+    return partial && !isPartialDateComplete(partial) ? partial : null;
+  };
+  // Masked text of a value, partial ones included
+  const formatValueText = (v: string): string => {
+    const partial = getPartialValue(v);
+    return partial ? formatThaiPartialDate(partial, yearOptions) : formatThai(parseAD(v));
+  };
+
+  // Every segment typed in (no mask letters left, e.g. "18/02/2569" but not "18/MM/2569")
+  const isTextFilled = (text: string) => text.length === format.mask.length && !/[A-Za-z]/.test(text);
+
+  // Explains a masked input: still typing, impossible date, year outside minYear/maxYear, or a constraint
+  const getInputError = (text: string): DateValidationError | null => {
+    if (!text) return null;
+    if (!isTextFilled(text)) return 'incomplete';
+    const partial = getPartialText(text);
+    if (partial) return getPartialDateConstraintError(partial, constraints);
+    const parsed = parseThai(text);
+    if (!parsed) {
+      const yearIndex = format.mask.indexOf('YYYY');
+      const monthIndex = format.mask.indexOf('MM');
+      const year = Number(text.slice(yearIndex, yearIndex + 4));
+      const month = monthIndex === -1 ? 0 : Number(text.slice(monthIndex, monthIndex + 2)) - 1;
+      return isYearInSupportedRange(fromDisplayYear(year, month, yearOptions), yearOptions) ? 'invalidDate' : 'outOfRange';
+    }
+    return getConstraintError(parsed);
+  };
+
+  // Shows masked text and sends the value once every segment is filled (or '' once the text is cleared)
+  const updateMaskedText = (text: string) => {
+    setInputValue(text);
+    reportError(getInputError(text), text);
+    const partial = isTextFilled(text) ? getPartialText(text) : null;
+    if (partial) {
+      emitChange(getPartialDateConstraintError(partial, constraints) ? '' : formatADPartialDate(partial));
+    } else if (isTextFilled(text)) {
+      const parsedDate = parseThai(text);
+      emitChange(parsedDate && !isValueDisabled(parsedDate) ? formatAD(parsedDate) : ''); // '' = invalid or out of range
+    } else if (!text) {
+      emitChange(''); // Cleared
+    }
+  };
+
+  // Robust synchronization of external value prop (AD String) to internal string state (Thai String)
+  useEffect(() => {
+    // A value other than the one we last sent comes from the parent, so a later '' from it clears the text
+    if (value !== emittedValueRef.current) emittedValueRef.current = null;
+
+    // 1. Parse current BE input value to Date (to check if user is currently typing something valid)
+    const currentInputDate = parseThai(inputValue);
+
+    // 2. Parse external AD value prop to Date
+    const propDate = parseAD(value);
+
+    const isSameDate = (d1: Date | null, d2: Date | null) => {
+      if (!d1 && !d2) return true;
+      if (!d1 || !d2) return false;
+      return d1.getTime() === d2.getTime();
+    };
+
+    // Partial values compare as text, since they have no Date
+    const propPartial = getPartialValue(value);
+    if (propPartial) {
+      if (formatADPartialDate(getPartialText(inputValue)) !== value) {
+        setInputValue(formatValueText(value));
+        reportError(null, formatValueText(value));
+      }
+      return;
+    }
+
+    // 3. If prop date differs from what's currently in the input (parsed), update input.
+    if (!isSameDate(propDate, currentInputDate)) {
+      if (propDate) {
+        setInputValue(formatThai(propDate));
+        reportError(null, formatThai(propDate));
+      } else {
+        // Only clear input if the external value is empty AND the current input isn't a partial/valid date
+        // This allows clearing from parent, but prevents fighting with user while they type valid chars
+        // (including the '' we emitted ourselves for a rejected date, which should stay visible with its error)
+        if (!value && emittedValueRef.current !== '') {
+          setInputValue('');
+          reportError(null, '');
+        }
+      }
+    }
+  }, [value, withTime, withSeconds, granularity, valueFormat, timeZone, historicalBE, allowPartial, locale.eraDisplay]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const selectSegment = (index: number) => {
+    const { start, end } = segments[index];
+    selectionRef.current = [start, end];
+    inputRef.current?.setSelectionRange(start, end); // Already right when the text does not change
+  };
+
+  const typeDigit = (index: number, digit: string, values: string[]) => {
+    const typed = typedSegmentRef.current?.index === index ? typedSegmentRef.current.digits : '';
+    const { digits, isDone } = typeSegmentDigit(segments[index], typed, digit);
+    values[index] = digits;
+    typedSegmentRef.current = isDone ? null : { index, digits };
+    updateMaskedText(writeSegments(values, format.mask, segments));
+    selectSegment(isDone ? Math.min(index + 1, segments.length - 1) : index);
+  };
+
+  // ArrowUp/ArrowDown: an empty segment starts from today, the minute moves by minuteStep
+  const stepSegment = (index: number, direction: number, values: string[]) => {
+    const { type } = segments[index];
+    const today = readSegments(formatThai(nowInTimeZone(timeZone, clock)), segments);
+    const monthIndex = segments.findIndex((segment) => segment.type === 'month');
+    const yearIndex = segments.findIndex((segment) => segment.type === 'year');
+    const month = Number(values[monthIndex]);
+    // Without a year yet, February may have 29 days
+    const yearAD = values[yearIndex] ? fromDisplayYear(Number(values[yearIndex]), month - 1, yearOptions) : 2000;
+    const daysInMonth = month >= 1 && month <= 12 ? getDaysInMonth(yearAD, month - 1) : 31;
+    const step = type === 'minute' ? normalizeMinuteStep(minuteStep) : 1;
+    const current = values[index] ? Number(values[index]) : null;
+    values[index] = String(stepSegmentValue(type, current, direction * step, Number(today[index]), daysInMonth, step));
+    typedSegmentRef.current = null;
+    updateMaskedText(writeSegments(values, format.mask, segments));
+    selectSegment(index);
+  };
+
+  // Backspace/Delete empty the segment; Backspace in an already empty segment empties the previous one
+  const clearSegment = (index: number, key: string, values: string[]) => {
+    const target = !values[index] && key === 'Backspace' ? Math.max(index - 1, 0) : index;
+    values[target] = '';
+    typedSegmentRef.current = null;
+    updateMaskedText(writeSegments(values, format.mask, segments));
+    selectSegment(target);
+  };
+
+  const setOpen = (open: boolean) => {
+    if (open === isCalendarOpen) return;
+    setIsOpenState(open);
+    if (open) onOpen?.();
+    else onClose?.();
+  };
+
+  // Opens at the given element, or at the field root (ref handle)
+  const openCalendar = (anchor?: HTMLElement | null) => {
+    if (disabled) return;
+    setAnchorEl(anchor ?? fieldRef.current);
+    setDraft(null);
+    setOpen(true);
+  };
+
+  const handleOpen = (event: React.MouseEvent<HTMLElement>) => {
+    openCalendar(event.currentTarget.parentElement); // Anchor to the input container
+  };
+
+  // Revert input to match the valid AD value (if it exists)
+  // This fixes partial inputs (e.g. user typed "01/01/" and clicked away)
+  const revertInput = () => {
+    const text = formatValueText(value);
+    if (text) {
+      setInputValue(text);
+    } else if (!value) {
+      setInputValue('');
+    }
+    reportError(null, text);
+  };
+
+  // Click-away, Escape and ยกเลิก: the draft is dropped and unfinished typing reverts
+  const handleClose = () => {
+    setDraft(null);
+    setOpen(false);
+    revertInput();
+  };
+
+  // ตกลง or a closing pick: the draft becomes the value
+  const handleAccept = () => {
+    const accepted = draftValueRef.current;
+    setDraft(null);
+    setOpen(false);
+    if (accepted !== null && accepted !== value) {
+      handleCalendarChange(accepted);
+      onAccept?.(accepted);
+    }
+  };
+
+  const commitDate = (date: Date) => {
+    emitChange(formatAD(date));
+    setInputValue(formatThai(date));
+    reportError(null, formatThai(date));
+  };
+
+  // Resolves free-form or partial text (e.g. "18 ก.พ. 69") into the masked BE display; runs on blur and Enter
+  const applyLenientInput = () => {
+    // Empty, or a complete masked value (partial ones included) already handled on change
+    if (!inputValue || parseThai(inputValue) || getPartialText(inputValue)) return;
+    const parsed = parseThaiDateLenient(inputValue, nowInTimeZone(timeZone, clock), yearOptions);
+    const constraintError = parsed ? getConstraintError(parsed) : null;
+    if (parsed && !constraintError) {
+      commitDate(parsed);
+    } else if (constraintError) {
+      reportError(constraintError, inputValue);
+    } else if (!validationError || validationError === 'incomplete') {
+      revertInput(); // Unfinished text is dropped; a complete but invalid date stays visible with its error
+    }
+  };
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLElement>) => {
+    const parsed = parseThaiDateLenient(e.clipboardData.getData('text'), nowInTimeZone(timeZone, clock), yearOptions);
+    if (!parsed) return; // Let the normal mask handle it
+    e.preventDefault();
+    const constraintError = getConstraintError(parsed);
+    if (!constraintError) {
+      commitDate(parsed);
+    } else {
+      // Shown like a blocked date typed in, with its reason, rather than dropped
+      const text = formatThai(parsed);
+      setInputValue(text);
+      reportError(constraintError, text);
+    }
+  };
+
+  // Digits, Backspace and arrows are handled per segment in handleInputKeyDown; this sees the rest
+  // (non-digit text, autofill, keyboards without key events)
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    typedSegmentRef.current = null;
+    // Typing into "18/MM/YYYY" leaves the mask letters around the new text; only the typed part counts
+    const text = isSegmentText(inputValue, format.mask) ? e.target.value.replace(/[DMYHms]/g, '') : e.target.value;
+
+    // Free-form text (month names, Thai digits) is kept as typed until blur/Enter
+    if (/[^0-9/ :]/.test(text)) {
+      const freeText = text.replace(/[/ :]+$/, '');
+      setInputValue(freeText);
+      reportError('incomplete', freeText);
+      return;
+    }
+
+    updateMaskedText(applyMask(text.replace(/[^0-9]/g, ''), format.mask));
+  };
+
+  const handleInputFocus = () => {
+    setIsInputFocused(true);
+    focusValueRef.current = value;
+    typedValueRef.current = null;
+  };
+
+  const handleInputBlur = () => {
+    typedSegmentRef.current = null;
+    setIsInputFocused(false);
+    applyLenientInput();
+    // Typed values are accepted once the user leaves the field (not on every keystroke)
+    const typed = typedValueRef.current;
+    if (typed !== null && typed !== focusValueRef.current) onAccept?.(typed);
+    typedValueRef.current = null;
+  };
+
+  // A click selects the whole segment under the caret
+  const handleInputClick = (e: React.MouseEvent) => {
+    if (!(e.target instanceof HTMLInputElement)) return; // Adornment buttons
+    inputRef.current = e.target;
+    const { selectionStart, selectionEnd } = e.target;
+    if (!isSegmentText(inputValue, format.mask) || selectionStart === null || selectionStart !== selectionEnd) return;
+    typedSegmentRef.current = null;
+    selectSegment(getSegmentIndexAt(segments, selectionStart));
+  };
+
+  const handleInputKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      applyLenientInput();
+      return;
+    }
+    if (!(e.target instanceof HTMLInputElement) || e.ctrlKey || e.metaKey || e.altKey) return;
+    // Free-form and partly masked text keep native editing
+    if (inputValue && !isSegmentText(inputValue, format.mask)) return;
+    inputRef.current = e.target;
+
+    const selectionStart = e.target.selectionStart ?? 0;
+    const isAllSelected = Boolean(inputValue) && selectionStart === 0 && e.target.selectionEnd === inputValue.length;
+    const index = getSegmentIndexAt(segments, selectionStart);
+    // Selecting everything and typing starts over, like replacing the selected text
+    const values = inputValue && !isAllSelected ? readSegments(inputValue, segments) : segments.map(() => '');
+
+    if (/^\d$/.test(e.key)) {
+      e.preventDefault();
+      typeDigit(isAllSelected ? 0 : index, e.key, values);
+    } else if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+      e.preventDefault();
+      stepSegment(index, e.key === 'ArrowUp' ? 1 : -1, values);
+    } else if (e.key === 'Backspace' || e.key === 'Delete') {
+      if (!inputValue) return;
+      e.preventDefault();
+      if (isAllSelected) {
+        typedSegmentRef.current = null;
+        updateMaskedText('');
+      } else {
+        clearSegment(index, e.key, values);
+      }
+    } else if (inputValue && (e.key === 'ArrowLeft' || e.key === 'ArrowRight') && !e.shiftKey) {
+      e.preventDefault();
+      typedSegmentRef.current = null;
+      const direction = e.key === 'ArrowLeft' ? -1 : 1;
+      const target = isAllSelected ? (direction < 0 ? 0 : segments.length - 1) : index + direction;
+      selectSegment(Math.min(Math.max(target, 0), segments.length - 1));
+    } else if (inputValue && SEGMENT_SEPARATOR_KEYS.includes(e.key)) {
+      // "1" then "/" means day 01; the separator itself is already in the text
+      e.preventDefault();
+      typedSegmentRef.current = null;
+      selectSegment(Math.min(index + 1, segments.length - 1));
+    }
+  };
+
+  const clear = () => {
+    emitChange('');
+    setInputValue('');
+    reportError(null, '');
+    if (value) onAccept?.('');
+  };
+
+  const handleClear = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    clear();
+  };
+
+  // Picks made in the calendar always produce a valid value
+  const handleCalendarChange = (newValue: string) => {
+    emitChange(newValue);
+    setInputValue(formatValueText(newValue));
+    reportError(null, formatValueText(newValue));
+  };
+
+  const propDate = useMemo(() => parseAD(value), [parseAD, value]);
+
+  // Messages from the locale (Thai by default); 'incomplete' is not shown because the user may still be typing
+  const errorMessages: Record<DateValidationError, string> = {
+    incomplete: '',
+    invalidDate: labels.errors.invalidDate,
+    outOfRange: labels.errors.outOfRange,
+    minDate: labels.errors.minDate(formatThai(constraints.minDate ?? null)),
+    maxDate: labels.errors.maxDate(formatThai(constraints.maxDate ?? null)),
+    shouldDisableDate: labels.errors.shouldDisableDate,
+    minTime: labels.errors.minTime(formatThaiTime(timeConstraints.minTime ?? null)),
+    maxTime: labels.errors.maxTime(formatThaiTime(timeConstraints.maxTime ?? null)),
+    minuteStep: labels.errors.minuteStep(timeConstraints.minuteStep ?? 1),
+  };
+  const errorText = validationError ? errorMessages[validationError] : '';
+
+  const effectiveDisplayFormat =
+    displayFormat ?? getDefaultDisplayFormat(granularity, { era, withTime, withSeconds, thaiTimeSuffix });
+  // Month and weekday names follow the locale unless displayFormatOptions sets its own
+  const displayValue =
+    effectiveDisplayFormat && propDate && !isInputFocused
+      ? formatThaiPattern(propDate, effectiveDisplayFormat, {
+          historical: historicalBE,
+          monthNames: locale.months,
+          monthNamesShort: locale.monthsShort,
+          dayNames: locale.weekdays,
+          dayNamesShort: locale.weekdaysShort,
+          ...displayFormatOptions,
+        })
+      : inputValue;
+
+  const calendarProps: UseThaiCalendarOptions = {
+    value: draftValue ?? value,
+    onChange: setDraft,
+    withTime,
+    withSeconds,
+    minuteStep,
+    minTime,
+    maxTime,
+    views,
+    openTo,
+    timeZone,
+    valueFormat,
+    historicalBE,
+    allowPartial,
+    minDate,
+    maxDate,
+    minYear,
+    maxYear,
+    disablePast,
+    disableFuture,
+    shouldDisableDate,
+    referenceDate,
+    closeOnSelect,
+    onSelectionComplete: handleAccept,
+    onCancel: handleClose,
+  };
+
+  return {
+    inputValue,
+    displayValue,
+    // Age of the picked date on today's date in timeZone (birth-date fields); null when empty or in the future
+    age: propDate ? calculateAge(propDate, nowInTimeZone(timeZone, clock)) : null,
+    placeholder: format.mask,
+    validationError,
+    errorText,
+    anchorEl,
+    isCalendarOpen,
+    // Attach to the field root and the input element (anchor for opening without a click, focus())
+    fieldRef,
+    inputRef,
+    openCalendar,
+    clear,
+    handleOpen,
+    handleClose,
+    handleAccept,
+    handleClear,
+    handleInputChange,
+    handleInputFocus,
+    handleInputBlur,
+    handleInputClick,
+    handleInputKeyDown,
+    handlePaste,
+    calendarProps,
+  };
+};